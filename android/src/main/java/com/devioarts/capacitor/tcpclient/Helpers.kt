@@ -5,6 +5,7 @@
 package com.devioarts.capacitor.tcpclient
 
 import com.getcapacitor.JSArray
+import org.json.JSONArray
 import org.json.JSONObject
 
 /**
@@ -52,15 +53,15 @@ object Helpers {
     }
 
     /**
-     * Convert a Capacitor JSArray (numbers 0..255) into a ByteArray.
+     * Convert a Capacitor JSArray / JSONArray (numbers 0..255) into a ByteArray.
      *
      * Expectations:
      * - Each element is an integer byte in the 0..255 range.
      *
      * Failure modes:
-     * - If the JSArray contains non-numeric entries, JSArray#getInt(i) may throw.
+     * - If the array contains non-numeric entries, JSONArray#getInt(i) may throw.
      */
-    fun jsArrayToBytes(arr: JSArray): ByteArray? {
+    fun jsArrayToBytes(arr: JSONArray): ByteArray? {
         val len = arr.length()
         if (len > MAX_BUFFER_BYTES) return null
         val out = ByteArray(len)
@@ -160,4 +161,160 @@ object Helpers {
         }
         return -1
     }
+
+    /** Earliest expect match: index of the pattern and offset of its first byte. */
+    data class ExpectMatch(val index: Int, val offset: Int)
+
+    /** Expect pattern; [bytes] are stored pre-masked and [mask] is null when every bit must match. */
+    class ExpectPattern(val bytes: ByteArray, val mask: ByteArray?)
+
+    /** Like [hexToBytes], but "??" is a wildcard byte ("1B ?? 40"). */
+    fun hexToPattern(str: String): ExpectPattern? {
+        val clean = str
+            .lowercase()
+            .replace(Regex("""0x"""), "")
+            .replace(Regex("""\s+"""), "")
+        if (clean.isEmpty() || clean.length % 2 != 0) return null
+        val bytes = ByteArray(clean.length / 2)
+        val mask = ByteArray(bytes.size) { 0xFF.toByte() }
+        for (i in bytes.indices) {
+            val pair = clean.substring(i * 2, i * 2 + 2)
+            if (pair == "??") {
+                mask[i] = 0
+                continue
+            }
+            bytes[i] = (pair.toIntOrNull(16) ?: return null).toByte()
+        }
+        return withMask(bytes, mask)
+    }
+
+    /**
+     * First match of [pattern] within the first [length] bytes of [haystack], or -1.
+     * Exact patterns use [indexOfRange]; masked ones compare only the mask bits.
+     */
+    fun indexOfPattern(haystack: ByteArray, length: Int, pattern: ExpectPattern): Int {
+        val mask = pattern.mask ?: return indexOfRange(haystack, length, pattern.bytes)
+        val needle = pattern.bytes
+        var i = 0
+        while (i <= length - needle.size) {
+            var j = 0
+            while (j < needle.size && (haystack[i + j].toInt() and mask[j].toInt() and 0xFF) == (needle[j].toInt() and 0xFF)) j++
+            if (j == needle.size) return i
+            i++
+        }
+        return -1
+    }
+
+    /**
+     * Parse the `expect` option into alternative byte patterns.
+     *
+     * Accepted forms:
+     * - A hex string (with optional "??" wildcards), number[], byte object or `{ bytes, mask }` (one pattern).
+     * - An array of those (alternatives); a plain number[] is always one pattern.
+     *
+     * Returns an empty list when no pattern is given and null when the value is invalid.
+     * An empty alternative is invalid, because it would match any reply.
+     */
+    fun parseExpectPatterns(value: Any?): List<ExpectPattern>? {
+        if (value is JSONArray && value.length() > 0 && (0 until value.length()).none { value.opt(it) is Number }) {
+            val out = ArrayList<ExpectPattern>(value.length())
+            for (i in 0 until value.length()) {
+                val pattern = expectPattern(value.opt(i)) ?: return null
+                if (pattern.bytes.isEmpty()) return null
+                out.add(pattern)
+            }
+            return out
+        }
+        if (value == null || value == JSONObject.NULL || value == "") return emptyList()
+        val pattern = expectPattern(value) ?: return null
+        return if (pattern.bytes.isEmpty()) emptyList() else listOf(pattern)
+    }
+
+    /**
+     * Find the earliest match of any pattern within the first [used] bytes of [buf].
+     * When several patterns match at the same offset, the lower pattern index wins.
+     */
+    fun findExpectMatch(buf: ByteArray, used: Int, patterns: List<ExpectPattern>): ExpectMatch? {
+        var best: ExpectMatch? = null
+        for ((index, pattern) in patterns.withIndex()) {
+            val offset = indexOfPattern(buf, used, pattern)
+            if (offset >= 0 && (best == null || offset < best.offset)) best = ExpectMatch(index, offset)
+        }
+        return best
+    }
+
+    /** Length field announced in a reply header (see TcpLengthFieldOptions in the JS API). */
+    data class LengthField(
+        val offset: Int,
+        val size: Int,
+        val littleEndian: Boolean,
+        val adjustment: Int,
+        val includesHeader: Boolean
+    )
+
+    /**
+     * Parse a `lengthField` option object. Missing keys fall back to the JS defaults
+     * (offset 0, size 2, big-endian, adjustment 0, header not counted).
+     * Returns null when any value is present but invalid.
+     */
+    fun jsonObjectToLengthField(obj: JSONObject): LengthField? {
+        val offset = optWholeInt(obj, "offset", 0) ?: return null
+        val size = optWholeInt(obj, "size", 2) ?: return null
+        val adjustment = optWholeInt(obj, "adjustment", 0) ?: return null
+        if (offset !in 0..MAX_BUFFER_BYTES) return null
+        if (size != 1 && size != 2 && size != 4) return null
+        if (adjustment !in -MAX_BUFFER_BYTES..MAX_BUFFER_BYTES) return null
+        val endian = if (obj.isNull("endian")) "big" else obj.opt("endian") as? String ?: return null
+        if (endian != "big" && endian != "little") return null
+        val includesHeader = if (obj.isNull("includesHeader")) false else obj.opt("includesHeader") as? Boolean ?: return null
+        return LengthField(offset, size, endian == "little", adjustment, includesHeader)
+    }
+
+    /**
+     * Total frame size announced by the header at the start of [buf].
+     * Returns null while the header is incomplete and -1 when the length is impossible
+     * (shorter than the header itself).
+     */
+    fun lengthFieldFrameSize(field: LengthField, buf: ByteArray, used: Int): Long? {
+        val header = field.offset + field.size
+        if (used < header) return null
+        var declared = 0L
+        for (i in 0 until field.size) {
+            val idx = field.offset + if (field.littleEndian) field.size - 1 - i else i
+            declared = declared * 256 + (buf[idx].toInt() and 0xFF)
+        }
+        val total = (if (field.includesHeader) 0L else header.toLong()) + declared + field.adjustment
+        return if (total < header) -1 else total
+    }
+
+    private fun expectPattern(value: Any?): ExpectPattern? = when (value) {
+        is String -> hexToPattern(value)
+        is JSONArray -> jsArrayToBytes(value)?.let { ExpectPattern(it, null) }
+        is JSONObject -> if (value.has("bytes")) maskedPattern(value) else jsonObjectToBytes(value)?.let { ExpectPattern(it, null) }
+        else -> null
+    }
+
+    /** `{ bytes, mask }`: only the bits set in mask must match; both must have the same length. */
+    private fun maskedPattern(obj: JSONObject): ExpectPattern? {
+        val pattern = expectPattern(obj.opt("bytes")) ?: return null
+        val mask = expectPattern(obj.opt("mask")) ?: return null
+        if (pattern.bytes.isEmpty() || mask.mask != null || mask.bytes.size != pattern.bytes.size) return null
+        val combined = pattern.mask ?: ByteArray(pattern.bytes.size) { 0xFF.toByte() }
+        for (i in combined.indices) combined[i] = (combined[i].toInt() and mask.bytes[i].toInt()).toByte()
+        return withMask(pattern.bytes, combined)
+    }
+
+    private fun withMask(bytes: ByteArray, mask: ByteArray): ExpectPattern {
+        if (mask.all { it == 0xFF.toByte() }) return ExpectPattern(bytes, null)
+        for (i in bytes.indices) bytes[i] = (bytes[i].toInt() and mask[i].toInt()).toByte()
+        return ExpectPattern(bytes, mask)
+    }
+
+    private fun optWholeInt(obj: JSONObject, key: String, default: Int): Int? {
+        if (obj.isNull(key)) return default
+        val value = obj.opt(key) as? Number ?: return null
+        val d = value.toDouble()
+        if (d != Math.floor(d) || d < Int.MIN_VALUE || d > Int.MAX_VALUE) return null
+        return d.toInt()
+    }
 }
@@ -25,6 +25,9 @@ class TCPClientPlugin : Plugin() {
         val client   = TCPClient().also { it.delegate = delegate }
         val pending  = ByteArrayOutputStream()
         val flushRunnable = Runnable { flushPendingNow(id) }
+        /** Target of the last connect(), reported by listConnections(). */
+        @Volatile var host: String? = null
+        @Volatile var port: Int = 0
     }
 
     /** Routes TCPClient callbacks back to the plugin with the matching connectionId. */
@@ -68,11 +71,32 @@ class TCPClientPlugin : Plugin() {
         if (port !in 1..65535) {
             call.resolve(JSObject().put("error", true).put("errorMessage", "invalid port").put("connected", false)); return
         }
+        // TLS and proxies are implemented on Electron only; never fall back to a direct plaintext connection
+        call.data.opt("tls").let { tls ->
+            if (tls != null && tls != JSObject.NULL && tls != false) {
+                call.resolve(JSObject().put("error", true).put("errorMessage", "tls is only supported on Electron").put("connected", false)); return
+            }
+        }
+        call.data.opt("proxy").let { proxy ->
+            if (proxy != null && proxy != JSObject.NULL) {
+                call.resolve(JSObject().put("error", true).put("errorMessage", "proxy is only supported on Electron").put("connected", false)); return
+            }
+        }
+        // binding an interface is Electron only as well; never connect through another one silently
+        val family = call.data.opt("family")
+        if (call.data.has("localAddress") && !call.data.isNull("localAddress") ||
+            call.data.has("localPort") && !call.data.isNull("localPort") ||
+            family != null && family != JSObject.NULL && family != "auto") {
+            call.resolve(JSObject().put("error", true).put("errorMessage", "localAddress, localPort and family are only supported on Electron").put("connected", false)); return
+        }
         val timeout   = (call.getInt("timeout")        ?: 3000).coerceAtLeast(1)
         val noDelay   = call.getBoolean("noDelay")     ?: true
         val keepAlive = call.getBoolean("keepAlive")   ?: true
 
-        getOrCreate(id).client.connect(host, port, timeout, noDelay, keepAlive) { res ->
+        val state = getOrCreate(id)
+        state.host = host
+        state.port = port
+        state.client.connect(host, port, timeout, noDelay, keepAlive) { res ->
             val obj = JSObject()
             if (res.isSuccess) obj.put("error", false).put("errorMessage", JSObject.NULL).put("connected", true)
             else               obj.put("error", true).put("errorMessage", "connect failed: ${res.exceptionOrNull()?.message}").put("connected", false)
@@ -109,6 +133,18 @@ class TCPClientPlugin : Plugin() {
         call.resolve(JSObject().put("error", false).put("errorMessage", JSObject.NULL).put("reading", reading))
     }
 
+    @PluginMethod
+    fun getConnectionInfo(call: PluginCall) {
+        val id = requireId(call) ?: return
+        val client = connections[id]?.client
+        // socket details and counters are reported by Electron and web only
+        call.resolve(
+            JSObject().put("error", false).put("errorMessage", JSObject.NULL)
+                .put("connected", client?.isConnected() ?: false)
+                .put("reading", client?.isReading() ?: false)
+        )
+    }
+
     @PluginMethod
     fun write(call: PluginCall) {
         val id    = requireId(call) ?: return
@@ -167,75 +203,109 @@ class TCPClientPlugin : Plugin() {
     fun writeAndRead(call: PluginCall) {
         val id    = requireId(call) ?: return
         val state = connections[id] ?: run {
-            call.resolve(JSObject().put("error", true).put("errorMessage", "not connected")
-                .put("bytesSent", 0).put("bytesReceived", 0).put("data", JSArray()).put("matched", false)); return
+            call.resolve(rrFailure("not connected", 0)); return
         }
         val bytes = extractBytes(call) ?: run {
-            call.resolve(JSObject().put("error", true).put("errorMessage", "invalid data (expected number[] / Uint8Array)")
-                .put("bytesSent", 0).put("bytesReceived", 0).put("data", JSArray()).put("matched", false)); return
+            call.resolve(rrFailure("invalid data (expected number[] / Uint8Array)", 0)); return
         }
+        runReadOperation(call, state, bytes)
+    }
+
+    /** Pull-based read: the reply half of writeAndRead without the write step. */
+    @PluginMethod
+    fun read(call: PluginCall) {
+        val id    = requireId(call) ?: return
+        val state = connections[id] ?: run {
+            call.resolve(rrFailure("not connected", null)); return
+        }
+        runReadOperation(call, state, null)
+    }
+
+    /** Error result for writeAndRead / read; [bytesSent] is only reported for writeAndRead. */
+    private fun rrFailure(message: String, bytesSent: Int?): JSObject {
+        val obj = JSObject().put("error", true).put("errorMessage", message)
+        if (bytesSent != null) obj.put("bytesSent", bytesSent)
+        return obj.put("bytesReceived", 0).put("data", JSArray()).put("matched", false)
+    }
 
+    /** Shared RR path: writes [request] first when given, then collects the reply. */
+    private fun runReadOperation(call: PluginCall, state: ConnState, request: ByteArray?) {
+        val label     = if (request != null) "writeAndRead" else "read"
+        val sentOnErr = if (request != null) 0 else null
         val timeout   = call.getInt("timeout")   ?: 1000
         val maxBytes  = call.getInt("maxBytes")  ?: 4096
         val suspendRR = call.getBoolean("suspendStreamDuringRR") ?: true
 
-        var matcher: ((ByteArray, Int) -> Boolean)? = null
-        val expectStr = call.getString("expect")
-        if (expectStr != null && expectStr.isEmpty()) {
-            matcher = null
-        } else if (!expectStr.isNullOrBlank()) {
-            val pat = Helpers.hexToBytes(expectStr) ?: run {
-                call.resolve(JSObject().put("error", true).put("errorMessage", "invalid expect (hex)")
-                    .put("bytesSent", 0).put("bytesReceived", 0).put("data", JSArray()).put("matched", false)); return
-            }
-            matcher = { buf, used -> Helpers.indexOfRange(buf, used, pat) >= 0 }
-        } else {
-            val expectArr = call.getArray("expect")
-            if (expectArr != null) {
-                val pat = Helpers.jsArrayToBytes(expectArr) ?: run {
-                    call.resolve(JSObject().put("error", true).put("errorMessage", "invalid expect (number[])")
-                        .put("bytesSent", 0).put("bytesReceived", 0).put("data", JSArray()).put("matched", false)); return
-                }
-                matcher = if (pat.isEmpty()) null else { buf, used -> Helpers.indexOfRange(buf, used, pat) >= 0 }
-            } else {
-                val expectObj = call.getObject("expect")
-                if (expectObj != null) {
-                    val pat = Helpers.jsonObjectToBytes(expectObj) ?: run {
-                        call.resolve(JSObject().put("error", true).put("errorMessage", "invalid expect (byte object)")
-                            .put("bytesSent", 0).put("bytesReceived", 0).put("data", JSArray()).put("matched", false)); return
-                    }
-                    matcher = if (pat.isEmpty()) null else { buf, used -> Helpers.indexOfRange(buf, used, pat) >= 0 }
-                } else if (call.getData().has("expect") && !call.getData().isNull("expect")) {
-                    call.resolve(JSObject().put("error", true).put("errorMessage", "invalid expect (hex or byte array expected)")
-                        .put("bytesSent", 0).put("bytesReceived", 0).put("data", JSArray()).put("matched", false)); return
-                }
+        // exactBytes is a read() option: complete once that many bytes arrived; the reader never reads past the cap
+        val exactBytes = if (request == null && call.getData().has("exactBytes") && !call.getData().isNull("exactBytes")) {
+            val n = call.getData().opt("exactBytes") as? Number
+            if (n == null || n.toDouble() != Math.floor(n.toDouble()) || n.toDouble() !in 1.0..(16.0 * 1024 * 1024)) {
+                call.resolve(rrFailure("invalid exactBytes", sentOnErr)); return
             }
+            n.toInt()
+        } else null
+
+        val expectPatterns = Helpers.parseExpectPatterns(call.getData().opt("expect")) ?: run {
+            call.resolve(rrFailure("invalid expect (hex or byte array expected)", sentOnErr)); return
+        }
+        val matcher: ((ByteArray, Int) -> Boolean)? = expectPatterns.takeIf { it.isNotEmpty() }?.let { patterns ->
+            { buf: ByteArray, used: Int -> patterns.any { Helpers.indexOfPattern(buf, used, it) >= 0 } }
         }
 
-        state.client.writeAndRead(bytes, timeout, maxBytes, matcher, suspendRR) { res ->
+        val lengthField = if (call.getData().has("lengthField") && !call.getData().isNull("lengthField")) {
+            call.getObject("lengthField")?.let { Helpers.jsonObjectToLengthField(it) } ?: run {
+                call.resolve(rrFailure("invalid lengthField", sentOnErr)); return
+            }
+        } else null
+        val lengthMatcher: ((ByteArray, Int) -> Boolean)? = lengthField?.let { field ->
+            { buf: ByteArray, used: Int ->
+                val size = Helpers.lengthFieldFrameSize(field, buf, used)
+                size != null && size >= 0 && used >= size
+            }
+        }
+        val exactMatcher: ((ByteArray, Int) -> Boolean)? = exactBytes?.let { n -> { _: ByteArray, used: Int -> used >= n } }
+        // expect, lengthField and exactBytes are completion rules; whichever is satisfied first ends the read
+        val rules = listOfNotNull(matcher, lengthMatcher, exactMatcher)
+        val completion: ((ByteArray, Int) -> Boolean)? =
+            if (rules.size > 1) fun(buf: ByteArray, used: Int) = rules.any { it(buf, used) } else rules.firstOrNull()
+
+        val bytes = request ?: ByteArray(0)
+        state.client.writeAndRead(bytes, timeout, exactBytes ?: maxBytes, completion, suspendRR) { res ->
             val obj = JSObject()
             if (res.isSuccess) {
                 val rr = res.getOrNull() ?: run {
-                    obj.put("error", true).put("errorMessage", "writeAndRead failed: missing result")
-                        .put("bytesSent", 0).put("bytesReceived", 0)
-                        .put("data", JSArray()).put("matched", false)
-                    runOnMain { call.resolve(obj) }
+                    runOnMain { call.resolve(rrFailure("$label failed: missing result", sentOnErr)) }
                     return@writeAndRead
                 }
+                // Report which alternative ended the read (the reader only knows that one did)
+                val match = if (rr.matched) Helpers.findExpectMatch(rr.data, rr.data.size, expectPatterns) else null
                 obj.put("error", false).put("errorMessage", JSObject.NULL)
-                    .put("bytesSent", bytes.size).put("bytesReceived", rr.data.size)
+                if (request != null) obj.put("bytesSent", bytes.size)
+                obj.put("bytesReceived", rr.data.size)
                     .put("data", Helpers.bytesToJSArray(rr.data)).put("matched", rr.matched)
+                    .put("matchedIndex", match?.index ?: -1).put("matchOffset", match?.offset ?: -1)
+                runOnMain { call.resolve(obj) }
             } else {
                 val ex = res.exceptionOrNull()
-                val bytesSent = if (ex is TCPClient.TcpError.ReadTimeout) bytes.size else 0
-                obj.put("error", true).put("errorMessage", "writeAndRead failed: ${ex?.message}")
-                    .put("bytesSent", bytesSent).put("bytesReceived", 0)
-                    .put("data", JSArray()).put("matched", false)
+                val bytesSent = if (request == null) null else if (ex is TCPClient.TcpError.ReadTimeout) bytes.size else 0
+                runOnMain { call.resolve(rrFailure("$label failed: ${ex?.message}", bytesSent)) }
             }
-            runOnMain { call.resolve(obj) }
         }
     }
 
+    @PluginMethod
+    fun listConnections(call: PluginCall) {
+        val list = JSArray()
+        for ((id, state) in connections) {
+            val entry = JSObject().put("connectionId", id)
+                .put("connected", state.client.isConnected())
+                .put("reading", state.client.isReading())
+            state.host?.let { entry.put("host", it).put("port", state.port) }
+            list.put(entry)
+        }
+        call.resolve(JSObject().put("error", false).put("errorMessage", JSObject.NULL).put("connections", list))
+    }
+
     @PluginMethod
     fun destroyConnection(call: PluginCall) {
         val id = call.getString("connectionId") ?: run { call.resolve(); return }
@@ -296,6 +366,11 @@ class TCPClientPlugin : Plugin() {
         }
     }
 
+    @PluginMethod
+    fun upgradeToTls(call: PluginCall) {
+        call.resolve(JSObject().put("error", true).put("errorMessage", "tls is only supported on Electron").put("upgraded", false))
+    }
+
     @PluginMethod
     fun getPluginPlatform(call: PluginCall) {
         call.resolve(JSObject().put("error", false).put("errorMessage", JSObject.NULL).put("platform", "android"))
@@ -5,6 +5,8 @@ import static org.junit.Assert.assertEquals;
 import static org.junit.Assert.assertNull;
 
 import com.getcapacitor.JSArray;
+import java.util.List;
+import org.json.JSONArray;
 import org.json.JSONObject;
 import org.junit.Test;
 
@@ -47,4 +49,72 @@ public class HelpersTest {
         assertEquals(-1, Helpers.INSTANCE.indexOfRange(haystack, 3, new byte[] { 4, 5 }));
         assertEquals(-1, Helpers.INSTANCE.indexOfRange(haystack, haystack.length, new byte[] {}));
     }
+
+    @Test
+    public void lengthFieldFrameSizeHonoursEndiannessAndHeader() throws Exception {
+        Helpers.LengthField bigEndian = Helpers.INSTANCE.jsonObjectToLengthField(new JSONObject());
+        byte[] reply = new byte[] { 0x00, 0x03, 0x0a, 0x0b, 0x0c };
+
+        assertNull(Helpers.INSTANCE.lengthFieldFrameSize(bigEndian, reply, 1));
+        assertEquals(Long.valueOf(5), Helpers.INSTANCE.lengthFieldFrameSize(bigEndian, reply, 2));
+
+        JSONObject options = new JSONObject();
+        options.put("offset", 1);
+        options.put("endian", "little");
+        options.put("includesHeader", true);
+        Helpers.LengthField littleEndian = Helpers.INSTANCE.jsonObjectToLengthField(options);
+        byte[] framed = new byte[] { 0x7e, 0x04, 0x00, 0x01 };
+
+        assertEquals(Long.valueOf(4), Helpers.INSTANCE.lengthFieldFrameSize(littleEndian, framed, 4));
+    }
+
+    @Test
+    public void jsonObjectToLengthFieldRejectsInvalidValues() throws Exception {
+        assertNull(Helpers.INSTANCE.jsonObjectToLengthField(new JSONObject().put("size", 3)));
+        assertNull(Helpers.INSTANCE.jsonObjectToLengthField(new JSONObject().put("offset", -1)));
+        assertNull(Helpers.INSTANCE.jsonObjectToLengthField(new JSONObject().put("endian", "middle")));
+    }
+
+    @Test
+    public void parseExpectPatternsSeparatesAlternativesFromPlainBytes() throws Exception {
+        assertEquals(1, Helpers.INSTANCE.parseExpectPatterns(new JSONArray("[79, 75]")).size());
+        assertEquals(0, Helpers.INSTANCE.parseExpectPatterns("").size());
+
+        List<Helpers.ExpectPattern> alternatives = Helpers.INSTANCE.parseExpectPatterns(new JSONArray("[\"06\", [21]]"));
+        assertEquals(2, alternatives.size());
+        assertArrayEquals(new byte[] { 0x15 }, alternatives.get(1).getBytes());
+
+        assertNull(Helpers.INSTANCE.parseExpectPatterns(new JSONArray("[\"06\", []]")));
+        assertNull(Helpers.INSTANCE.parseExpectPatterns(new JSONArray("[6, \"15\"]")));
+    }
+
+    @Test
+    public void findExpectMatchPrefersEarliestOffsetThenLowerIndex() throws Exception {
+        List<Helpers.ExpectPattern> patterns = Helpers.INSTANCE.parseExpectPatterns(new JSONArray("[\"0203\", \"02\", \"01\"]"));
+        byte[] reply = new byte[] { 0x01, 0x02, 0x03 };
+
+        Helpers.ExpectMatch first = Helpers.INSTANCE.findExpectMatch(reply, reply.length, patterns);
+        assertEquals(2, first.getIndex());
+        assertEquals(0, first.getOffset());
+
+        Helpers.ExpectMatch tie = Helpers.INSTANCE.findExpectMatch(new byte[] { 0x02, 0x03 }, 2, patterns);
+        assertEquals(0, tie.getIndex());
+        assertNull(Helpers.INSTANCE.findExpectMatch(reply, 1, patterns.subList(0, 2)));
+    }
+
+    @Test
+    public void wildcardAndMaskedPatternsCompareOnlyMaskedBits() throws Exception {
+        Helpers.ExpectPattern wildcard = Helpers.INSTANCE.hexToPattern("1B ?? 40");
+        assertArrayEquals(new byte[] { (byte) 0xff, 0x00, (byte) 0xff }, wildcard.getMask());
+        assertEquals(1, Helpers.INSTANCE.indexOfPattern(new byte[] { 0x00, 0x1b, 0x7e, 0x40 }, 4, wildcard));
+        assertEquals(-1, Helpers.INSTANCE.indexOfPattern(new byte[] { 0x00, 0x1b, 0x7e, 0x40 }, 3, wildcard));
+        assertNull(Helpers.INSTANCE.hexToPattern("1b ?4"));
+
+        List<Helpers.ExpectPattern> offline = Helpers.INSTANCE.parseExpectPatterns(new JSONObject("{\"bytes\": [128], \"mask\": \"80\"}"));
+        assertEquals(1, offline.size());
+        assertEquals(0, Helpers.INSTANCE.indexOfPattern(new byte[] { (byte) 0x92 }, 1, offline.get(0)));
+        assertEquals(-1, Helpers.INSTANCE.indexOfPattern(new byte[] { 0x12 }, 1, offline.get(0)));
+
+        assertNull(Helpers.INSTANCE.parseExpectPatterns(new JSONObject("{\"bytes\": [1, 2], \"mask\": [255]}")));
+    }
 }
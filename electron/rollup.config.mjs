@@ -1,4 +1,4 @@
-const external = ['electron', 'net'];
+const external = ['electron', 'net', 'tls'];
 
 // tsc --project electron/tsconfig.json uses rootDir: ".." (project root),
 // so output mirrors the full tree under electron/build/:
@@ -7,12 +7,12 @@
  * - Stream reader: micro-batch incoming data (10 ms window, 16 KB cap), split into
  *   consumer-sized slices, emit tcpData to renderer (payload includes connectionId).
  * - IPC contract: methods are registered as ipcMain.handle handlers by the
- *   auto-generated electron-main.ts runtime.  Events are pushed to the renderer
- *   via webContents.send.
+ *   auto-generated electron-main.ts runtime.  Events are pushed via webContents.send
+ *   to every window subscribed to the connection.
  * - Error policy: methods resolve with { error, errorMessage, ... }; no exceptions cross IPC.
  *
- * NOTE: parseExpectBytes is inlined here — do NOT re-introduce an import from
- * '../../src/utils/expect'. The src/ directory is not included in the published npm
+ * NOTE: parseExpectBytes and the length-field helpers are inlined here — do NOT re-introduce
+ * imports from '../../src/utils/*'. The src/ directory is not included in the published npm
  * package (only dist/ and electron/ are listed in package.json "files"), so that
  * import would break in any app that installs the package.
  */
@@ -22,43 +22,484 @@ import type { WebContents } from 'electron';
 // Use CommonJS import form so tsc does not emit top-level `this` helpers before Rollup.
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 import net = require('net');
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+import tls = require('tls');
 
 // ---------------------------------------------------------------------------
 // parseExpectBytes — inlined from src/utils/expect (src/ not in published pkg)
 // ---------------------------------------------------------------------------
 
-type ExpectInput = string | number[] | Uint8Array | null | undefined;
-type ParsedExpect = { ok: true; bytes: Uint8Array | null } | { ok: false };
+interface MaskedExpectInput {
+  bytes: string | number[] | Uint8Array;
+  mask: string | number[] | Uint8Array;
+}
+type ExpectInput = string | number[] | Uint8Array | MaskedExpectInput | null | undefined;
+/** Bytes are stored pre-masked; mask is null when every bit must match. */
+interface ExpectPattern {
+  bytes: Buffer;
+  mask: Buffer | null;
+}
+type ParsedExpect = { ok: true; pattern: ExpectPattern | null } | { ok: false };
 
 function parseExpectBytes(expect: ExpectInput): ParsedExpect {
-  if (expect == null || expect === '') return { ok: true, bytes: null };
+  if (expect == null || expect === '') return { ok: true, pattern: null };
   if (expect instanceof Uint8Array) {
-    return { ok: true, bytes: expect.length === 0 ? null : new Uint8Array(expect) };
+    return { ok: true, pattern: expect.length === 0 ? null : { bytes: Buffer.from(expect), mask: null } };
   }
   if (Array.isArray(expect)) {
-    if (expect.length === 0) return { ok: true, bytes: null };
-    const out = new Uint8Array(expect.length);
+    if (expect.length === 0) return { ok: true, pattern: null };
+    const out = Buffer.alloc(expect.length);
     for (let i = 0; i < expect.length; i++) {
       const value = expect[i];
       if (!isByte(value)) return { ok: false };
       out[i] = value;
     }
-    return { ok: true, bytes: out };
+    return { ok: true, pattern: { bytes: out, mask: null } };
   }
   if (typeof expect === 'string') {
     const clean = expect.replace(/0x/gi, '').replace(/\s+/g, '').toLowerCase();
     if (!clean || clean.length % 2) return { ok: false };
-    const out = new Uint8Array(clean.length / 2);
+    const out = Buffer.alloc(clean.length / 2);
+    const mask = Buffer.alloc(out.length, 0xff);
     for (let i = 0; i < clean.length; i += 2) {
-      const v = parseInt(clean.slice(i, i + 2), 16);
-      if (Number.isNaN(v)) return { ok: false };
-      out[i / 2] = v & 0xff;
+      const pair = clean.slice(i, i + 2);
+      if (pair === '??') {
+        mask[i / 2] = 0;
+        continue;
+      }
+      // parseInt() would read a half wildcard like "4?" as 0x04
+      if (!/^[0-9a-f]{2}$/.test(pair)) return { ok: false };
+      out[i / 2] = parseInt(pair, 16);
     }
-    return { ok: true, bytes: out };
+    return { ok: true, pattern: withMask(out, mask) };
+  }
+  if (typeof expect === 'object' && 'bytes' in expect) {
+    const pattern = parseExpectBytes(expect.bytes);
+    const mask = parseExpectBytes(expect.mask);
+    if (!pattern.ok || !pattern.pattern || !mask.ok || !mask.pattern || mask.pattern.mask) return { ok: false };
+    if (mask.pattern.bytes.length !== pattern.pattern.bytes.length) return { ok: false };
+    const combined = pattern.pattern.mask ?? Buffer.alloc(pattern.pattern.bytes.length, 0xff);
+    for (let i = 0; i < combined.length; i++) combined[i] &= mask.pattern.bytes[i];
+    return { ok: true, pattern: withMask(pattern.pattern.bytes, combined) };
   }
   return { ok: false };
 }
 
+function withMask(bytes: Buffer, mask: Buffer): ExpectPattern {
+  if (mask.every((m) => m === 0xff)) return { bytes, mask: null };
+  for (let i = 0; i < bytes.length; i++) bytes[i] &= mask[i];
+  return { bytes, mask };
+}
+
+type ExpectPatternsInput = ExpectInput | (string | number[] | Uint8Array | MaskedExpectInput)[];
+type ParsedExpectPatterns = { ok: true; patterns: ExpectPattern[] } | { ok: false };
+
+/** A plain number[] is one pattern; an array of strings / arrays / Uint8Arrays / masks lists alternatives. */
+function parseExpectPatterns(expect: ExpectPatternsInput): ParsedExpectPatterns {
+  if (Array.isArray(expect) && expect.length > 0 && expect.every((value) => typeof value !== 'number')) {
+    const patterns: ExpectPattern[] = [];
+    for (const alternative of expect as (string | number[] | Uint8Array | MaskedExpectInput)[]) {
+      const parsed = parseExpectBytes(alternative);
+      // an empty alternative would match any reply
+      if (!parsed.ok || !parsed.pattern) return { ok: false };
+      patterns.push(parsed.pattern);
+    }
+    return { ok: true, patterns };
+  }
+  const parsed = parseExpectBytes(expect as ExpectInput);
+  if (!parsed.ok) return { ok: false };
+  return { ok: true, patterns: parsed.pattern ? [parsed.pattern] : [] };
+}
+
+/** First offset >= from where the pattern matches, or -1. */
+function indexOfPattern(buf: Buffer, pattern: ExpectPattern, from: number): number {
+  const { bytes, mask } = pattern;
+  if (!mask) return buf.indexOf(bytes, from);
+  for (let offset = from; offset + bytes.length <= buf.length; offset++) {
+    let j = 0;
+    while (j < bytes.length && (buf[offset + j] & mask[j]) === bytes[j]) j++;
+    if (j === bytes.length) return offset;
+  }
+  return -1;
+}
+
+/** Earliest match of any pattern at or after `from`; ties at the same offset go to the lower pattern index. */
+function findExpectMatch(buf: Buffer, patterns: ExpectPattern[], from = 0): { index: number; offset: number } | null {
+  let best: { index: number; offset: number } | null = null;
+  for (let index = 0; index < patterns.length; index++) {
+    const offset = indexOfPattern(buf, patterns[index], from);
+    if (offset >= 0 && (!best || offset < best.offset)) best = { index, offset };
+  }
+  return best;
+}
+
+// ---------------------------------------------------------------------------
+// Length field — mirrors src/utils/framer (src/ not in published pkg)
+// ---------------------------------------------------------------------------
+
+interface LengthFieldInput {
+  offset?: number;
+  size?: number;
+  endian?: string;
+  adjustment?: number;
+  includesHeader?: boolean;
+}
+
+interface LengthFieldSpec {
+  offset: number;
+  size: number;
+  littleEndian: boolean;
+  adjustment: number;
+  includesHeader: boolean;
+}
+type ParsedLengthField = { ok: true; spec: LengthFieldSpec | null } | { ok: false };
+
+function parseLengthField(input: LengthFieldInput | null | undefined): ParsedLengthField {
+  if (input == null) return { ok: true, spec: null };
+  if (typeof input !== 'object') return { ok: false };
+  const offset = input.offset ?? 0;
+  const size = input.size ?? 2;
+  const adjustment = input.adjustment ?? 0;
+  if (!Number.isInteger(offset) || offset < 0 || offset > MAX_BUFFER_BYTES) return { ok: false };
+  if (size !== 1 && size !== 2 && size !== 4) return { ok: false };
+  if (!Number.isInteger(adjustment) || Math.abs(adjustment) > MAX_BUFFER_BYTES) return { ok: false };
+  if (input.endian != null && input.endian !== 'big' && input.endian !== 'little') return { ok: false };
+  return {
+    ok: true,
+    spec: { offset, size, littleEndian: input.endian === 'little', adjustment, includesHeader: !!input.includesHeader },
+  };
+}
+
+/** Announced frame size; undefined while the header is incomplete, -1 if the length is impossible. */
+function lengthFieldFrameSize(spec: LengthFieldSpec, buf: Buffer): number | undefined {
+  const header = spec.offset + spec.size;
+  if (buf.length < header) return undefined;
+  const declared = spec.littleEndian ? buf.readUIntLE(spec.offset, spec.size) : buf.readUIntBE(spec.offset, spec.size);
+  const total = (spec.includesHeader ? 0 : header) + declared + spec.adjustment;
+  return total < header ? -1 : total;
+}
+
+// ---------------------------------------------------------------------------
+// TLS options — mirrors TcpTlsOptions in src/definitions
+// ---------------------------------------------------------------------------
+
+interface TlsInput {
+  servername?: string;
+  ca?: string | string[];
+  cert?: string;
+  key?: string;
+  passphrase?: string;
+  rejectUnauthorized?: boolean;
+  alpnProtocols?: string[];
+  pinnedSha256?: string | string[];
+}
+/** `pins` are normalized to uppercase hex without separators. */
+type ParsedTls = { ok: true; options: tls.ConnectionOptions | null; pins: string[] } | { ok: false };
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+/** `host` becomes the SNI name unless it is an IP literal (SNI forbids those). */
+function parseTlsOptions(input: boolean | TlsInput | null | undefined, host: string): ParsedTls {
+  if (input == null || input === false) return { ok: true, options: null, pins: [] };
+  const value: TlsInput = input === true ? {} : input;
+  if (typeof value !== 'object') return { ok: false };
+  for (const text of [value.servername, value.cert, value.key, value.passphrase]) {
+    if (text != null && !isText(text)) return { ok: false };
+  }
+  // a client certificate needs its key and vice versa
+  if (!value.cert !== !value.key) return { ok: false };
+  const ca = value.ca == null ? undefined : Array.isArray(value.ca) ? value.ca : [value.ca];
+  if (ca && (ca.length === 0 || !ca.every(isText))) return { ok: false };
+  if (value.rejectUnauthorized != null && typeof value.rejectUnauthorized !== 'boolean') return { ok: false };
+  const alpn = value.alpnProtocols;
+  if (alpn != null && (!Array.isArray(alpn) || alpn.length === 0 || !alpn.every(isText))) return { ok: false };
+  const pinInput =
+    value.pinnedSha256 == null ? [] : Array.isArray(value.pinnedSha256) ? value.pinnedSha256 : [value.pinnedSha256];
+  const pins = pinInput.map((pin) => (typeof pin === 'string' ? normalizeFingerprint(pin) : ''));
+  if ((value.pinnedSha256 != null && pins.length === 0) || !pins.every((pin) => /^[0-9A-F]{64}$/.test(pin))) {
+    return { ok: false };
+  }
+  return {
+    ok: true,
+    pins,
+    options: {
+      host,
+      servername: value.servername ?? (net.isIP(host) ? undefined : host),
+      ca,
+      cert: value.cert,
+      key: value.key,
+      passphrase: value.passphrase,
+      // a pin replaces chain and host name verification unless the caller asks for both
+      rejectUnauthorized: value.rejectUnauthorized ?? pins.length === 0,
+      ALPNProtocols: alpn,
+    },
+  };
+}
+
+function normalizeFingerprint(value: string): string {
+  return value.replace(/[\s:]/g, '').toUpperCase();
+}
+
+/** Peer certificate details reported by connect(); mirrors TcpPeerCertificate. */
+interface PeerCertificate {
+  subject: string;
+  issuer: string;
+  validFrom: string;
+  validTo: string;
+  serialNumber: string;
+  fingerprintSha256: string;
+}
+
+function distinguishedName(name: Record<string, string | string[]> | undefined): string {
+  if (!name) return '';
+  return Object.entries(name)
+    .map(([key, value]) => `${key}=${Array.isArray(value) ? value.join('+') : value}`)
+    .join(', ');
+}
+
+function describeCertificate(cert: tls.PeerCertificate): PeerCertificate {
+  return {
+    subject: distinguishedName(cert.subject as unknown as Record<string, string | string[]>),
+    issuer: distinguishedName(cert.issuer as unknown as Record<string, string | string[]>),
+    validFrom: new Date(cert.valid_from).toISOString(),
+    validTo: new Date(cert.valid_to).toISOString(),
+    serialNumber: cert.serialNumber,
+    fingerprintSha256: cert.fingerprint256,
+  };
+}
+
+type TlsDetails = Omit<UpgradeTlsResult, 'upgraded'>;
+
+/** Handshake outcome for connect()/upgradeToTls() results. */
+function tlsDetails(secure: tls.TLSSocket): TlsDetails {
+  const details: TlsDetails = { tlsProtocol: secure.getProtocol() ?? undefined };
+  if (secure.alpnProtocol) details.alpnProtocol = secure.alpnProtocol;
+  const peer = secure.getPeerCertificate();
+  if (peer && peer.fingerprint256) details.certificate = describeCertificate(peer);
+  return details;
+}
+
+function matchesPins(secure: tls.TLSSocket, pins: string[]): boolean {
+  return pins.length === 0 || pins.includes(normalizeFingerprint(secure.getPeerCertificate().fingerprint256 ?? ''));
+}
+
+// ---------------------------------------------------------------------------
+// Proxy handshakes — mirrors TcpProxyOptions in src/definitions
+// ---------------------------------------------------------------------------
+
+interface ProxyInput {
+  type?: unknown;
+  host?: unknown;
+  port?: unknown;
+  username?: unknown;
+  password?: unknown;
+}
+interface ProxySettings {
+  type: 'socks5' | 'http-connect';
+  host: string;
+  port: number;
+  username?: string;
+  password?: string;
+}
+type ParsedProxy = { ok: true; proxy: ProxySettings | null } | { ok: false };
+
+const MAX_PROXY_RESPONSE_BYTES = 16 * 1024;
+const SOCKS5_REPLIES: Record<number, string> = {
+  1: 'general failure',
+  2: 'connection not allowed by ruleset',
+  3: 'network unreachable',
+  4: 'host unreachable',
+  5: 'connection refused',
+  6: 'TTL expired',
+  7: 'command not supported',
+  8: 'address type not supported',
+};
+
+function parseProxyOptions(input: ProxyInput | null | undefined): ParsedProxy {
+  if (input == null) return { ok: true, proxy: null };
+  if (typeof input !== 'object') return { ok: false };
+  const { type, host, port, username, password } = input;
+  if (type !== 'socks5' && type !== 'http-connect') return { ok: false };
+  if (typeof host !== 'string' || !host.trim()) return { ok: false };
+  if (typeof port !== 'number' || !Number.isInteger(port) || port < 1 || port > 65535) return { ok: false };
+  if (username != null && typeof username !== 'string') return { ok: false };
+  if (password != null && (typeof password !== 'string' || username == null)) return { ok: false };
+  // SOCKS5 carries each credential in a length byte
+  if (type === 'socks5' && [username, password].some((v) => v != null && Buffer.byteLength(v, 'utf8') > 255)) {
+    return { ok: false };
+  }
+  return {
+    ok: true,
+    proxy: { type, host: host.trim(), port, username: username ?? undefined, password: password ?? undefined },
+  };
+}
+
+/** Pull-style reads over a socket's data events; release() hands unread bytes back to the socket. */
+function createHandshakeReader(sock: net.Socket) {
+  let buffered = Buffer.alloc(0);
+  let ended = false;
+  let wake: (() => void) | null = null;
+  const notify = () => {
+    const resume = wake;
+    wake = null;
+    resume?.();
+  };
+  const onData = (chunk: Buffer) => {
+    buffered = Buffer.concat([buffered, chunk]);
+    notify();
+  };
+  const onEnd = () => {
+    ended = true;
+    notify();
+  };
+  sock.on('data', onData);
+  sock.once('end', onEnd);
+  sock.once('close', onEnd);
+  const more = () => new Promise<void>((resolve) => (wake = resolve));
+
+  return {
+    /** Exactly `count` bytes, or null when the proxy closed first. */
+    async take(count: number): Promise<Buffer | null> {
+      while (buffered.length < count) {
+        if (ended) return null;
+        await more();
+      }
+      const out = buffered.subarray(0, count);
+      buffered = buffered.subarray(count);
+      return out;
+    },
+    /** Bytes up to and including `delimiter`; null on close, 'overflow' past `limit`. */
+    async until(delimiter: string, limit: number): Promise<Buffer | null | 'overflow'> {
+      for (;;) {
+        const at = buffered.indexOf(delimiter);
+        if (at >= 0) {
+          const out = buffered.subarray(0, at + delimiter.length);
+          buffered = buffered.subarray(at + delimiter.length);
+          return out;
+        }
+        if (buffered.length > limit) return 'overflow';
+        if (ended) return null;
+        await more();
+      }
+    },
+    release() {
+      sock.off('data', onData);
+      sock.off('end', onEnd);
+      sock.off('close', onEnd);
+      // stop flowing like read() does; the next reader resumes the socket
+      if (!sock.destroyed) sock.pause();
+      if (buffered.length && !sock.destroyed) sock.unshift(buffered);
+    },
+  };
+}
+
+type HandshakeReader = ReturnType<typeof createHandshakeReader>;
+
+function socks5Address(host: string): Buffer {
+  if (net.isIPv4(host)) return Buffer.from([0x01, ...host.split('.').map(Number)]);
+  if (net.isIPv6(host)) {
+    const out = Buffer.alloc(17);
+    out[0] = 0x04;
+    // drop a zone id, turn an embedded IPv4 tail into two groups, then expand "::"
+    const text = host
+      .split('%')[0]
+      .replace(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/, (_m, a, b, c, d) =>
+        [((+a << 8) | +b).toString(16), ((+c << 8) | +d).toString(16)].join(':'),
+      );
+    const [head, tail = ''] = text.split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = text.includes('::') ? (tail ? tail.split(':') : []) : [];
+    const groups = [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups];
+    groups.forEach((group, i) => out.writeUInt16BE(parseInt(group, 16), 1 + i * 2));
+    return out;
+  }
+  const name = Buffer.from(host, 'utf8');
+  return Buffer.concat([Buffer.from([0x03, name.length]), name]);
+}
+
+async function socks5Handshake(
+  sock: net.Socket,
+  reader: HandshakeReader,
+  proxy: ProxySettings,
+  host: string,
+  port: number,
+): Promise<string | null> {
+  const closed = 'proxy handshake failed: connection closed';
+  const auth = proxy.username != null;
+  sock.write(Buffer.from(auth ? [0x05, 0x02, 0x00, 0x02] : [0x05, 0x01, 0x00]));
+  const choice = await reader.take(2);
+  if (!choice) return closed;
+  if (choice[0] !== 0x05) return 'proxy handshake failed: not a SOCKS5 proxy';
+  // 0xff: none of the offered methods, i.e. the proxy wants credentials we do not have
+  if (choice[1] === 0xff) return 'proxy auth failed';
+  if (choice[1] === 0x02) {
+    if (!auth) return 'proxy handshake failed: unexpected auth method';
+    const user = Buffer.from(proxy.username ?? '', 'utf8');
+    const pass = Buffer.from(proxy.password ?? '', 'utf8');
+    sock.write(Buffer.concat([Buffer.from([0x01, user.length]), user, Buffer.from([pass.length]), pass]));
+    const status = await reader.take(2);
+    if (!status) return closed;
+    if (status[1] !== 0x00) return 'proxy auth failed';
+  } else if (choice[1] !== 0x00) {
+    return 'proxy handshake failed: unexpected auth method';
+  }
+
+  const portBytes = Buffer.alloc(2);
+  portBytes.writeUInt16BE(port);
+  sock.write(Buffer.concat([Buffer.from([0x05, 0x01, 0x00]), socks5Address(host), portBytes]));
+  const reply = await reader.take(5);
+  if (!reply) return closed;
+  if (reply[0] !== 0x05) return 'proxy handshake failed: not a SOCKS5 proxy';
+  if (reply[1] !== 0x00) {
+    return `target unreachable via proxy: ${SOCKS5_REPLIES[reply[1]] ?? `reply ${reply[1]}`}`;
+  }
+  // bound address: IPv4, domain (length byte already read) or IPv6, then the port
+  const rest = reply[3] === 0x01 ? 3 + 2 : reply[3] === 0x03 ? reply[4] + 2 : reply[3] === 0x04 ? 15 + 2 : -1;
+  if (rest < 0) return 'proxy handshake failed: invalid reply';
+  return (await reader.take(rest)) ? null : closed;
+}
+
+async function httpConnectHandshake(
+  sock: net.Socket,
+  reader: HandshakeReader,
+  proxy: ProxySettings,
+  host: string,
+  port: number,
+): Promise<string | null> {
+  const authority = `${net.isIPv6(host) ? `[${host}]` : host}:${port}`;
+  let request = `CONNECT ${authority} HTTP/1.1\r\nHost: ${authority}\r\n`;
+  if (proxy.username != null) {
+    const credentials = Buffer.from(`${proxy.username}:${proxy.password ?? ''}`, 'utf8').toString('base64');
+    request += `Proxy-Authorization: Basic ${credentials}\r\n`;
+  }
+  sock.write(`${request}\r\n`);
+  const head = await reader.until('\r\n\r\n', MAX_PROXY_RESPONSE_BYTES);
+  if (head === 'overflow') return 'proxy handshake failed: response too large';
+  if (!head) return 'proxy handshake failed: connection closed';
+  const status = /^HTTP\/1\.[01] (\d{3})/.exec(head.toString('latin1'));
+  if (!status) return 'proxy handshake failed: invalid response';
+  const code = Number(status[1]);
+  if (code === 407) return 'proxy auth failed';
+  if (code < 200 || code > 299) return `target unreachable via proxy: HTTP ${code}`;
+  return null;
+}
+
+/**
+ * Open the tunnel to host:port over a socket connected to the proxy. Resolves null once the
+ * tunnel is up, otherwise the error message. Bytes the target sent early stay on the socket.
+ */
+async function proxyHandshake(sock: net.Socket, proxy: ProxySettings, host: string, port: number) {
+  const reader = createHandshakeReader(sock);
+  try {
+    const handshake = proxy.type === 'socks5' ? socks5Handshake : httpConnectHandshake;
+    return await handshake(sock, reader, proxy, host, port);
+  } finally {
+    reader.release();
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Result helpers
 // ---------------------------------------------------------------------------
@@ -67,11 +508,52 @@ type Empty = Record<string, never>;
 type StdOk<T extends object = Empty> = { error: false; errorMessage: null } & T;
 type StdErr<T extends object = Empty> = { error: true; errorMessage: string } & T;
 type Std<T extends object = Empty> = StdOk<T> | StdErr<T>;
+/** Socket endpoints reported by a successful connect. */
+type ConnectResult = {
+  connected: boolean;
+  localAddress?: string;
+  localPort?: number;
+  remoteAddress?: string;
+  remotePort?: number;
+  family?: 4 | 6;
+  tlsProtocol?: string;
+  alpnProtocol?: string;
+  certificate?: PeerCertificate;
+};
+/** Diagnostics reported by getConnectionInfo(); mirrors TcpConnectionInfoResult. */
+type ConnectionInfo = {
+  connected: boolean;
+  reading: boolean;
+  host?: string;
+  port?: number;
+  remoteAddress?: string;
+  remotePort?: number;
+  localAddress?: string;
+  localPort?: number;
+  family?: 4 | 6;
+  connectedAt?: number;
+  bytesRead?: number;
+  bytesWritten?: number;
+  writeBufferSize?: number;
+  connectInFlight?: boolean;
+  rrInFlight?: boolean;
+  ioInFlight?: boolean;
+};
+/** One entry of listConnections(); the wrapper merges it with its own registry. */
+type ConnectionSummary = { connectionId: string; host: string; port: number; connected: boolean; reading: boolean };
+/** Outcome of upgradeToTls(). */
+type UpgradeTlsResult = { upgraded: boolean } & Pick<ConnectResult, 'tlsProtocol' | 'alpnProtocol' | 'certificate'>;
 
 function isByte(value: unknown): value is number {
   return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 255;
 }
 
+/** IPC handlers may forward something other than `event.sender`; only a window can own connections. */
+function isWebContents(value: unknown): value is WebContents {
+  const candidate = value as Partial<WebContents> | null | undefined;
+  return typeof candidate?.once === 'function' && typeof candidate.isDestroyed === 'function';
+}
+
 function ok(): StdOk<Empty>;
 function ok<T extends object>(extra: T): StdOk<T>;
 function ok<T extends object>(extra?: T) {
@@ -84,6 +566,55 @@ function fail<T extends object>(msg: unknown, extra?: T) {
   return { error: true, errorMessage: m, ...(extra ?? ({} as Empty)) };
 }
 
+/** How byte data crosses IPC: number[] (default), base64 string or Uint8Array. */
+type DataEncoding = 'array' | 'base64' | 'uint8array';
+type EncodedData = number[] | string | Uint8Array;
+
+function parseDataEncoding(value: unknown): DataEncoding | null {
+  if (value == null) return 'array';
+  return value === 'array' || value === 'base64' || value === 'uint8array' ? value : null;
+}
+
+function encodeData(buf: Buffer, encoding: DataEncoding): EncodedData {
+  if (encoding === 'base64') return buf.toString('base64');
+  // Copy: a Buffer may be a view into a shared pool that IPC would clone as a whole
+  if (encoding === 'uint8array') return new Uint8Array(buf);
+  return Array.from(buf.values());
+}
+
+type RRResult = {
+  data: EncodedData;
+  bytesSent: number;
+  bytesReceived: number;
+  matched: boolean;
+  matchedIndex: number;
+  matchOffset: number;
+  /** writeAndRead() only: ms from the start of the request to the first reply byte. */
+  firstByteMs?: number;
+};
+
+function emptyRR(bytesSent = 0): RRResult {
+  return { data: [], bytesSent, bytesReceived: 0, matched: false, matchedIndex: -1, matchOffset: -1 };
+}
+
+type ReadResult = Omit<RRResult, 'bytesSent'>;
+
+function toReadResult(res: RRResult): ReadResult {
+  const { data, bytesReceived, matched, matchedIndex, matchOffset } = res;
+  return { data, bytesReceived, matched, matchedIndex, matchOffset };
+}
+
+/** Completion rules shared by writeAndRead and read. exactBytes 0 means off. */
+interface ReplyRules {
+  timeout: number;
+  cap: number;
+  expectPatterns: ExpectPattern[];
+  lengthSpec: LengthFieldSpec | null;
+  exactBytes: number;
+  suspendStream: boolean;
+  encoding: DataEncoding;
+}
+
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
@@ -96,6 +627,7 @@ const MIN_RR_IDLE_MS = 100;
 const MAX_RR_IDLE_MS = 200;
 const MERGE_WINDOW_MS = 10;
 const MERGE_MAX_BYTES = 16 * 1024;
+const NOT_OWNER = 'connection belongs to another window';
 
 // ---------------------------------------------------------------------------
 // Per-connection state
@@ -103,6 +635,15 @@ const MERGE_MAX_BYTES = 16 * 1024;
 
 interface SocketState {
   sock: net.Socket | null;
+  /** Host given to connect(); the default TLS server name for upgradeToTls(). */
+  host: string;
+  port: number;
+  /** When the current socket finished connecting (ms since epoch); 0 before that. */
+  connectedAt: number;
+  /** Window that connected it; null when opened from the main process. */
+  owner: WebContents | null;
+  /** Other windows may use the connection too (connect option `shared`). */
+  shared: boolean;
   reading: boolean;
   rrInFlight: boolean;
   ioInFlight: boolean;
@@ -113,6 +654,7 @@ interface SocketState {
   lastSocketError: Error | null;
   lastChunkSize: number;
   readTimeout: number;
+  dataEncoding: DataEncoding;
   // micro-batch
   pendingChunks: Buffer[];
   pendingSize: number;
@@ -122,6 +664,11 @@ interface SocketState {
 function makeState(): SocketState {
   return {
     sock: null,
+    host: '',
+    port: 0,
+    connectedAt: 0,
+    owner: null,
+    shared: false,
     reading: false,
     rrInFlight: false,
     ioInFlight: false,
@@ -129,12 +676,21 @@ function makeState(): SocketState {
     lastSocketError: null,
     lastChunkSize: DEFAULT_CHUNK_SIZE,
     readTimeout: 1000,
+    dataEncoding: 'array',
     pendingChunks: [],
     pendingSize: 0,
     flushTimer: null,
   };
 }
 
+/** Event subscriptions of one window; both counts go up per add and down per remove. */
+interface Subscription {
+  /** Listeners for every connection. */
+  all: number;
+  /** Listeners per connectionId. */
+  connections: Map<string, number>;
+}
+
 // ---------------------------------------------------------------------------
 // TCPClient
 // ---------------------------------------------------------------------------
@@ -150,38 +706,82 @@ function makeState(): SocketState {
  *     subscriptions to the renderer via `CapacitorCustomPlatform`.
  *
  * Events:
- *  - `event-add-TCPClient` (ipcMain.on) — sent by the preload when the first
- *    listener for any event type is registered; captures the renderer's
- *    `WebContents` so subsequent `sendEvent` calls can reach it.
- *  - `event-TCPClient-tcpData` / `event-TCPClient-tcpDisconnect` — sent to
- *    the renderer via `webContents.send`.
- *
- * ⚠️ Single-window limitation: only the `WebContents` of the most recent
- *    `event-add-TCPClient` sender is retained.  In multi-window Electron apps
- *    events are delivered only to the last window that registered a listener.
+ *  - `event-add-TCPClient` (ipcMain.on, args `eventName, connectionId?`) — sent by
+ *    the preload when a listener is registered; subscribes the sender's
+ *    `WebContents` to one connection, or to every connection without a
+ *    `connectionId`.
+ *  - `event-remove-TCPClient` (ipcMain.on, same args) — drops that subscription
+ *    again. Subscriptions are counted, so each add needs its own remove.
+ *  - `event-TCPClient-tcpData` / `event-TCPClient-tcpDisconnect` — sent via
+ *    `webContents.send` to every window subscribed to the event's connection.
+ *    Destroyed windows are dropped without affecting the others.
  */
 export class TCPClient {
-  private webContents: WebContents | null = null;
+  private subscribers = new Map<WebContents, Subscription>();
+  private watchedOwners = new WeakSet<WebContents>();
   private conns = new Map<string, SocketState>();
   private pendingReadTimeouts = new Map<string, number>();
 
   constructor() {
-    ipcMain.on('event-add-TCPClient', (event) => {
-      this.attachWebContents(event.sender);
+    ipcMain.on('event-add-TCPClient', (event, _eventName?: unknown, connectionId?: unknown) => {
+      this.attachWebContents(event.sender, connectionId);
+    });
+    ipcMain.on('event-remove-TCPClient', (event, _eventName?: unknown, connectionId?: unknown) => {
+      this.detachWebContents(event.sender, connectionId);
     });
   }
 
   // ---- internal helpers ---------------------------------------------------
 
-  private attachWebContents(webContents: WebContents) {
-    if (this.webContents === webContents) return;
+  /** Subscribe a window to one connection's events, or to all of them without a connectionId. */
+  private attachWebContents(webContents: WebContents, connectionId?: unknown) {
+    let sub = this.subscribers.get(webContents);
+    if (!sub) {
+      sub = { all: 0, connections: new Map() };
+      this.subscribers.set(webContents, sub);
+      webContents.once('destroyed', () => this.subscribers.delete(webContents));
+    }
+    if (typeof connectionId === 'string' && connectionId) {
+      sub.connections.set(connectionId, (sub.connections.get(connectionId) ?? 0) + 1);
+    } else {
+      sub.all++;
+    }
+  }
+
+  private detachWebContents(webContents: WebContents, connectionId?: unknown) {
+    const sub = this.subscribers.get(webContents);
+    if (!sub) return;
+    if (typeof connectionId === 'string' && connectionId) {
+      const count = (sub.connections.get(connectionId) ?? 0) - 1;
+      if (count > 0) sub.connections.set(connectionId, count);
+      else sub.connections.delete(connectionId);
+    } else {
+      sub.all = Math.max(0, sub.all - 1);
+    }
+  }
+
+  /**
+   * Ownership guard for renderer calls: true when `sender` may not use the connection because
+   * another window opened it without `shared`. Calls without a sender (main process, runtimes
+   * that do not forward it) are trusted.
+   */
+  private foreign(connectionId: string, sender?: WebContents): boolean {
+    if (!isWebContents(sender)) return false;
+    const st = this.conns.get(connectionId);
+    return !!st?.owner && st.owner !== sender && !st.shared;
+  }
 
-    this.webContents = webContents;
-    webContents.once('destroyed', () => {
-      if (this.webContents === webContents) {
-        this.webContents = null;
+  /** A closing window takes the connections it owns with it. False when `owner` is not a window. */
+  private watchOwner(owner?: WebContents): owner is WebContents {
+    if (!isWebContents(owner)) return false;
+    if (this.watchedOwners.has(owner)) return true;
+    this.watchedOwners.add(owner);
+    owner.once('destroyed', () => {
+      for (const [connectionId, st] of this.conns) {
+        if (st.owner === owner) void this.destroyConnection({ connectionId });
       }
     });
+    return true;
   }
 
   private getOrCreate(connectionId: string): SocketState {
@@ -196,21 +796,18 @@ export class TCPClient {
   }
 
   private sendEvent(connectionId: string, name: 'tcpData' | 'tcpDisconnect', payload: object) {
-    const webContents = this.webContents;
-    if (!webContents) return;
-
-    if (webContents.isDestroyed()) {
-      if (this.webContents === webContents) {
-        this.webContents = null;
+    for (const [webContents, sub] of this.subscribers) {
+      if (sub.all === 0 && !sub.connections.has(connectionId)) continue;
+      // windows that may not use the connection get none of its events, even when subscribed
+      if (this.foreign(connectionId, webContents)) continue;
+      if (webContents.isDestroyed()) {
+        this.subscribers.delete(webContents);
+        continue;
       }
-      return;
-    }
-
-    try {
-      webContents.send(`event-TCPClient-${name}`, { connectionId, ...payload });
-    } catch {
-      if (this.webContents === webContents) {
-        this.webContents = null;
+      try {
+        webContents.send(`event-TCPClient-${name}`, { connectionId, ...payload });
+      } catch {
+        this.subscribers.delete(webContents);
       }
     }
   }
@@ -240,6 +837,16 @@ export class TCPClient {
     return out;
   }
 
+  /** Request bytes: a byte array, or a base64 string when dataEncoding is 'base64'. */
+  private payloadToBuf(data: unknown, encoding: DataEncoding) {
+    if (typeof data !== 'string') return this.jsArrToBuf(data);
+    if (encoding !== 'base64') return null;
+    const clean = data.replace(/\s+/g, '');
+    if (clean.length % 4 !== 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(clean)) return null;
+    if ((clean.length / 4) * 3 > MAX_BUFFER_BYTES + 2) return null;
+    return Buffer.from(clean, 'base64');
+  }
+
   private detachRuntimeSocketHandlers(st: SocketState, s: net.Socket) {
     if (st.streamDataHandler) {
       s.off('data', st.streamDataHandler);
@@ -304,7 +911,7 @@ export class TCPClient {
       const lim = Math.max(1, st.lastChunkSize || 4096);
       for (let off = 0; off < payload.length; off += lim) {
         const part = payload.subarray(off, Math.min(off + lim, payload.length));
-        this.sendEvent(connectionId, 'tcpData', { data: Array.from(part.values()) });
+        this.sendEvent(connectionId, 'tcpData', { data: encodeData(part, st.dataEncoding) });
       }
     }
   }
@@ -372,18 +979,28 @@ export class TCPClient {
 
   // ---- IPC handlers -------------------------------------------------------
 
-  async connect(args: {
-    connectionId: string;
-    host: string;
-    port?: number;
-    timeout?: number;
-    noDelay?: boolean;
-    keepAlive?: boolean;
-  }): Promise<Std<{ connected: boolean }>> {
+  async connect(
+    args: {
+      connectionId: string;
+      host: string;
+      port?: number;
+      timeout?: number;
+      noDelay?: boolean;
+      keepAlive?: boolean;
+      localAddress?: string;
+      localPort?: number;
+      family?: 4 | 6 | 'auto';
+      tls?: boolean | TlsInput;
+      proxy?: ProxyInput;
+      shared?: boolean;
+    },
+    sender?: WebContents,
+  ): Promise<Std<ConnectResult>> {
     const { connectionId } = args;
     if (typeof connectionId !== 'string' || !connectionId) {
       return fail('connectionId is required', { connected: false });
     }
+    if (this.foreign(connectionId, sender)) return fail(NOT_OWNER, { connected: false });
     const hostRaw = args.host;
     if (typeof hostRaw !== 'string' || !hostRaw.trim()) {
       return fail('host is required', { connected: false });
@@ -396,12 +1013,43 @@ export class TCPClient {
     const timeout = this.positiveInt(args.timeout, 3000, 1, MAX_TIMER_MS);
     const noDelay = args.noDelay ?? true;
     const keepAlive = args.keepAlive ?? true;
+    const localAddress = args.localAddress;
+    if (localAddress != null && (typeof localAddress !== 'string' || !net.isIP(localAddress))) {
+      return fail('invalid localAddress', { connected: false });
+    }
+    const localPort = this.positiveInt(args.localPort, 0, 1, 65535);
+    if (args.localPort != null && localPort !== args.localPort) {
+      return fail('invalid localPort', { connected: false });
+    }
+    const family = args.family ?? 'auto';
+    if (family !== 4 && family !== 6 && family !== 'auto') {
+      return fail('invalid family', { connected: false });
+    }
+    if (localAddress != null && family !== 'auto' && net.isIP(localAddress) !== family) {
+      return fail('localAddress does not match family', { connected: false });
+    }
+    const parsedTls = parseTlsOptions(args.tls, host);
+    if (!parsedTls.ok) {
+      return fail('invalid tls options', { connected: false });
+    }
+    const tlsOptions = parsedTls.options;
+    const pins = parsedTls.pins;
+    const parsedProxy = parseProxyOptions(args.proxy);
+    if (!parsedProxy.ok) {
+      return fail('invalid proxy options', { connected: false });
+    }
+    const proxy = parsedProxy.proxy;
     const st = this.getOrCreate(connectionId);
-
     if (st.connectInFlight) {
       return fail('busy', { connected: false });
     }
     st.connectInFlight = true;
+    st.host = host;
+    st.port = port;
+    st.connectedAt = 0;
+    if (!st.owner && this.watchOwner(sender)) st.owner = sender;
+    // only the owner (or the main process) decides who else may use the connection
+    if (!isWebContents(sender) || st.owner === sender) st.shared = args.shared === true;
 
     // tear down any existing socket for this connection first
     await this.disconnect({ connectionId });
@@ -409,13 +1057,17 @@ export class TCPClient {
     st.rrInFlight = false;
     st.ioInFlight = false;
 
-    return new Promise<Std<{ connected: boolean }>>((resolve) => {
+    return new Promise<Std<ConnectResult>>((resolve) => {
       const s = new net.Socket();
       st.sock = s;
       st.lastSocketError = null;
 
       let settled = false;
       let connectTimer: NodeJS.Timeout | null = null;
+      // true while the proxy opens the tunnel; failures then are proxy failures
+      let proxying = false;
+      // set once TCP is up and the TLS handshake runs; failures from here on are TLS failures
+      let secure: tls.TLSSocket | null = null;
 
       const cleanupConnect = () => {
         if (connectTimer) {
@@ -425,36 +1077,77 @@ export class TCPClient {
         s.off('connect', onConnect);
         s.off('error', onError);
         s.off('close', onClose);
+        if (secure) {
+          secure.off('secureConnect', onSecureConnect);
+          secure.off('error', onError);
+          secure.off('close', onClose);
+        }
       };
 
-      const settle = (result: Std<{ connected: boolean }>, destroySocket: boolean) => {
+      const settle = (result: Std<ConnectResult>, destroySocket: boolean) => {
         if (settled) return;
         settled = true;
         cleanupConnect();
-        if (st.sock === s && result.error) st.sock = null;
-        if (destroySocket && !s.destroyed) {
-          try {
-            s.destroy();
-          } catch {
-            /* ignore */
+        if ((st.sock === s || st.sock === secure) && result.error) st.sock = null;
+        if (destroySocket) {
+          for (const sock of [secure, s]) {
+            if (!sock || sock.destroyed) continue;
+            try {
+              sock.destroy();
+            } catch {
+              /* ignore */
+            }
           }
         }
         st.connectInFlight = false;
         resolve(result);
       };
 
+      const failedMessage = (err: Error | null) => {
+        if (secure) return `tls handshake failed: ${err ? err.message : 'connection closed'}`;
+        if (proxying) return `proxy handshake failed: ${err ? err.message : 'connection closed'}`;
+        return err ? `connect failed: ${err.message}` : 'connection closed before connect';
+      };
+
       const onError = (err: Error) => {
         st.lastSocketError = err;
-        settle(fail(`connect failed: ${err.message}`, { connected: false }), false);
+        settle(fail(failedMessage(err), { connected: false }), !!secure || proxying);
       };
 
       const onClose = () => {
         const err = st.lastSocketError;
         st.lastSocketError = null;
-        settle(
-          fail(err ? `connect failed: ${err.message}` : 'connection closed before connect', { connected: false }),
-          false,
-        );
+        settle(fail(failedMessage(err), { connected: false }), !!secure || proxying);
+      };
+
+      const finishConnect = (sock: net.Socket) => {
+        settled = true;
+        cleanupConnect();
+        st.connectInFlight = false;
+        st.connectedAt = Date.now();
+        this.installRuntimeSocketHandlers(connectionId, st, sock);
+        const result: ConnectResult = {
+          connected: true,
+          localAddress: sock.localAddress,
+          localPort: sock.localPort,
+          remoteAddress: sock.remoteAddress,
+          remotePort: sock.remotePort,
+        };
+        if (sock.remoteFamily) result.family = sock.remoteFamily === 'IPv6' ? 6 : 4;
+        resolve(ok(secure ? { ...result, ...tlsDetails(secure) } : result));
+      };
+
+      const onSecureConnect = () => {
+        if (settled) return;
+        if (!secure || st.sock !== secure) {
+          settle(fail('connection closed before connect', { connected: false }), true);
+          return;
+        }
+        if (!matchesPins(secure, pins)) {
+          settle(fail('tls handshake failed: certificate does not match pinnedSha256', { connected: false }), true);
+          return;
+        }
+        finishConnect(secure);
       };
 
       const onConnect = () => {
@@ -463,11 +1156,46 @@ export class TCPClient {
           settle(fail('connection closed before connect', { connected: false }), true);
           return;
         }
-        settled = true;
-        cleanupConnect();
-        st.connectInFlight = false;
-        this.installRuntimeSocketHandlers(connectionId, st, s);
-        resolve(ok({ connected: true }));
+        if (!proxy) {
+          startSession();
+          return;
+        }
+        // connected to the proxy: open the tunnel to the target within the same timeout
+        proxying = true;
+        void proxyHandshake(s, proxy, host, port).then((message) => {
+          if (settled) return;
+          proxying = false;
+          if (message) {
+            settle(fail(message, { connected: false }), true);
+          } else if (st.sock !== s) {
+            settle(fail('connection closed before connect', { connected: false }), true);
+          } else {
+            startSession();
+          }
+        });
+      };
+
+      const startSession = () => {
+        if (!tlsOptions) {
+          finishConnect(s);
+          return;
+        }
+        // TCP (or the proxy tunnel) is up: hand the socket to TLS; the connect timeout keeps running
+        s.off('error', onError);
+        s.off('close', onClose);
+        try {
+          secure = tls.connect({ ...tlsOptions, socket: s });
+        } catch (e) {
+          settle(
+            fail(`tls handshake failed: ${e instanceof Error ? e.message : String(e)}`, { connected: false }),
+            true,
+          );
+          return;
+        }
+        st.sock = secure;
+        secure.once('secureConnect', onSecureConnect);
+        secure.once('error', onError);
+        secure.once('close', onClose);
       };
 
       s.once('connect', onConnect);
@@ -475,21 +1203,137 @@ export class TCPClient {
       s.once('close', onClose);
 
       connectTimer = setTimeout(() => {
-        settle(fail('connect timeout', { connected: false }), true);
+        const message = secure ? 'tls handshake timeout' : proxying ? 'proxy handshake timeout' : 'connect timeout';
+        settle(fail(message, { connected: false }), true);
       }, timeout);
 
       try {
         s.setNoDelay(!!noDelay);
         s.setKeepAlive(!!keepAlive, 60_000);
-        s.connect({ host, port });
+        s.connect({
+          ...(proxy ? { host: proxy.host, port: proxy.port } : { host, port }),
+          localAddress,
+          localPort: localPort || undefined,
+          family: family === 'auto' ? 0 : family,
+        });
       } catch (e) {
         settle(fail(e, { connected: false }), true);
       }
     });
   }
 
-  async disconnect(args: { connectionId: string }): Promise<Std<{ disconnected: boolean; reading?: boolean }>> {
+  /**
+   * STARTTLS-style upgrade: wrap the connected plain socket in TLS after the application
+   * protocol agreed to switch. Runtime handlers and an active stream move to the TLS socket;
+   * a failed handshake closes the connection (tcpDisconnect reason 'error').
+   */
+  async upgradeToTls(
+    args: TlsInput & { connectionId: string; timeout?: number },
+    sender?: WebContents,
+  ): Promise<Std<UpgradeTlsResult>> {
+    const { connectionId, timeout: timeoutArg, ...input } = args;
+    if (this.foreign(connectionId, sender)) return fail(NOT_OWNER, { upgraded: false });
+    const st = this.conns.get(connectionId);
+    if (!st || !this.isOpen(st) || !st.sock) return fail('not connected', { upgraded: false });
+    if (st.connectInFlight || st.ioInFlight || st.rrInFlight) return fail('busy', { upgraded: false });
+    if (st.sock instanceof tls.TLSSocket) return fail('already tls', { upgraded: false });
+    const parsed = parseTlsOptions(input, st.host);
+    if (!parsed.ok || !parsed.options) return fail('invalid tls options', { upgraded: false });
+    const { options, pins } = parsed;
+    const timeout = this.positiveInt(timeoutArg, 3000, 1, MAX_TIMER_MS);
+
+    const raw = st.sock;
+    // plaintext that arrived before the switch is delivered first
+    this.flushPendingNow(connectionId, st);
+    const streamDataHandler = st.streamDataHandler;
+    this.detachRuntimeSocketHandlers(st, raw);
+    st.ioInFlight = true;
+
+    return new Promise<Std<UpgradeTlsResult>>((resolve) => {
+      let secure: tls.TLSSocket | null = null;
+      let settled = false;
+      let timer: NodeJS.Timeout | null = null;
+
+      const settle = (result: Std<UpgradeTlsResult>) => {
+        if (settled) return;
+        settled = true;
+        if (timer) clearTimeout(timer);
+        if (secure) {
+          secure.off('secureConnect', onSecureConnect);
+          secure.off('error', onError);
+          secure.off('close', onClose);
+        }
+        st.ioInFlight = false;
+        resolve(result);
+      };
+
+      const failUpgrade = (message: string) => {
+        // a manual disconnect during the handshake already reported the close
+        const owned = st.sock === raw || st.sock === secure;
+        for (const sock of [secure, raw]) {
+          if (!sock || sock.destroyed) continue;
+          sock.on('error', () => undefined);
+          try {
+            sock.destroy();
+          } catch {
+            /* ignore */
+          }
+        }
+        if (owned) {
+          st.sock = null;
+          st.reading = false;
+          st.rrInFlight = false;
+          this.sendEvent(connectionId, 'tcpDisconnect', {
+            reason: 'error',
+            error: message,
+            disconnected: true,
+            reading: false,
+          });
+        }
+        settle(fail(message, { upgraded: false }));
+      };
+
+      const onError = (err: Error) => failUpgrade(`tls handshake failed: ${err.message}`);
+      const onClose = () => failUpgrade('tls handshake failed: connection closed');
+
+      const onSecureConnect = () => {
+        if (settled || !secure) return;
+        if (st.sock !== secure) {
+          failUpgrade('tls handshake failed: connection closed');
+          return;
+        }
+        if (!matchesPins(secure, pins)) {
+          failUpgrade('tls handshake failed: certificate does not match pinnedSha256');
+          return;
+        }
+        this.installRuntimeSocketHandlers(connectionId, st, secure);
+        if (st.reading && streamDataHandler) {
+          st.streamDataHandler = streamDataHandler;
+          secure.on('data', streamDataHandler);
+        }
+        settle(ok({ upgraded: true, ...tlsDetails(secure) }));
+      };
+
+      try {
+        secure = tls.connect({ ...options, socket: raw });
+      } catch (e) {
+        failUpgrade(`tls handshake failed: ${e instanceof Error ? e.message : String(e)}`);
+        return;
+      }
+      st.sock = secure;
+      secure.once('secureConnect', onSecureConnect);
+      secure.once('error', onError);
+      secure.once('close', onClose);
+      timer = setTimeout(() => failUpgrade('tls handshake timeout'), timeout);
+    });
+  }
+
+  async disconnect(
+    args: { connectionId: string },
+    sender?: WebContents,
+  ): Promise<Std<{ disconnected: boolean; reading?: boolean }>> {
     const { connectionId } = args;
+    if (this.foreign(connectionId, sender)) return fail(NOT_OWNER, { disconnected: false });
     await this.stopRead({ connectionId });
 
     const st = this.conns.get(connectionId);
@@ -518,22 +1362,72 @@ export class TCPClient {
     return ok({ disconnected: true, reading: false });
   }
 
-  async isConnected(args: { connectionId: string }): Promise<Std<{ connected: boolean }>> {
+  async isConnected(args: { connectionId: string }, sender?: WebContents): Promise<Std<{ connected: boolean }>> {
+    if (this.foreign(args.connectionId, sender)) return fail(NOT_OWNER, { connected: false });
     const st = this.conns.get(args.connectionId);
     return ok({ connected: !!st && this.isOpen(st) });
   }
 
-  async isReading(args: { connectionId: string }): Promise<Std<{ reading: boolean }>> {
+  async getConnectionInfo(args: { connectionId: string }, sender?: WebContents): Promise<Std<ConnectionInfo>> {
+    if (this.foreign(args.connectionId, sender)) return fail(NOT_OWNER, { connected: false, reading: false });
+    const st = this.conns.get(args.connectionId);
+    if (!st) return ok({ connected: false, reading: false });
+    const info: ConnectionInfo = {
+      connected: this.isOpen(st),
+      reading: st.reading,
+      host: st.host,
+      port: st.port,
+      connectInFlight: st.connectInFlight,
+      rrInFlight: st.rrInFlight,
+      ioInFlight: st.ioInFlight,
+    };
+    const sock = st.sock;
+    if (!sock || !info.connected) return ok(info);
+    info.remoteAddress = sock.remoteAddress;
+    info.remotePort = sock.remotePort;
+    info.localAddress = sock.localAddress;
+    info.localPort = sock.localPort;
+    if (sock.remoteFamily) info.family = sock.remoteFamily === 'IPv6' ? 6 : 4;
+    info.connectedAt = st.connectedAt;
+    info.bytesRead = sock.bytesRead;
+    info.bytesWritten = sock.bytesWritten;
+    info.writeBufferSize = sock.writableLength;
+    return ok(info);
+  }
+
+  /** Connections the sender may use: its own, shared ones and those opened without a window. */
+  async listConnections(_args?: object, sender?: WebContents): Promise<Std<{ connections: ConnectionSummary[] }>> {
+    const connections: ConnectionSummary[] = [];
+    for (const [connectionId, st] of this.conns) {
+      if (this.foreign(connectionId, sender)) continue;
+      const { host, port, reading } = st;
+      connections.push({ connectionId, host, port, connected: this.isOpen(st), reading });
+    }
+    return ok({ connections });
+  }
+
+  async isReading(args: { connectionId: string }, sender?: WebContents): Promise<Std<{ reading: boolean }>> {
+    if (this.foreign(args.connectionId, sender)) return fail(NOT_OWNER, { reading: false });
     const st = this.conns.get(args.connectionId);
     return ok({ reading: !!st?.reading });
   }
 
-  async write(args: { connectionId: string; data: number[] }): Promise<Std<{ bytesSent: number }>> {
+  async write(
+    args: {
+      connectionId: string;
+      data: number[] | Uint8Array | string;
+      dataEncoding?: DataEncoding;
+    },
+    sender?: WebContents,
+  ): Promise<Std<{ bytesSent: number }>> {
+    if (this.foreign(args.connectionId, sender)) return fail(NOT_OWNER, { bytesSent: 0 });
     const st = this.conns.get(args.connectionId);
     if (!st || !this.isOpen(st) || !st.sock) return fail('not connected', { bytesSent: 0 });
     if (st.ioInFlight || st.rrInFlight) return fail('busy', { bytesSent: 0 });
 
-    const buf = this.jsArrToBuf(args.data ?? []);
+    const encoding = parseDataEncoding(args.dataEncoding);
+    if (!encoding) return fail('invalid dataEncoding', { bytesSent: 0 });
+    const buf = this.payloadToBuf(args.data ?? [], encoding);
     if (!buf) return fail('data must be an array of bytes', { bytesSent: 0 });
     st.ioInFlight = true;
     try {
@@ -543,17 +1437,25 @@ export class TCPClient {
     }
   }
 
-  async startRead(args: {
-    connectionId: string;
-    chunkSize?: number;
-    readTimeout?: number;
-  }): Promise<Std<{ reading: boolean }>> {
+  async startRead(
+    args: {
+      connectionId: string;
+      chunkSize?: number;
+      readTimeout?: number;
+      dataEncoding?: DataEncoding;
+    },
+    sender?: WebContents,
+  ): Promise<Std<{ reading: boolean }>> {
     const { connectionId } = args;
+    if (this.foreign(connectionId, sender)) return fail(NOT_OWNER, { reading: false });
     const st = this.conns.get(connectionId);
     if (!st || !this.isOpen(st) || !st.sock) return fail('not connected', { reading: false });
+    const encoding = parseDataEncoding(args?.dataEncoding);
+    if (!encoding) return fail('invalid dataEncoding', { reading: st.reading });
     if (st.reading) return ok({ reading: true });
 
     st.reading = true;
+    st.dataEncoding = encoding;
     st.lastChunkSize = this.positiveInt(args?.chunkSize, DEFAULT_CHUNK_SIZE, 1, MAX_BUFFER_BYTES);
     if (args?.readTimeout != null) st.readTimeout = this.positiveInt(args.readTimeout, st.readTimeout, 1, MAX_TIMER_MS);
 
@@ -575,10 +1477,13 @@ export class TCPClient {
       }
     };
     st.sock.on('data', st.streamDataHandler);
+    // a previous read() may have paused the socket to hold unread bytes
+    if (st.sock.isPaused()) st.sock.resume();
     return ok({ reading: true });
   }
 
-  async stopRead(args: { connectionId: string }): Promise<Std<{ reading: boolean }>> {
+  async stopRead(args: { connectionId: string }, sender?: WebContents): Promise<Std<{ reading: boolean }>> {
+    if (this.foreign(args.connectionId, sender)) return fail(NOT_OWNER, { reading: false });
     const st = this.conns.get(args.connectionId);
     if (!st) return ok({ reading: false });
     if (st.sock && st.streamDataHandler) {
@@ -590,7 +1495,8 @@ export class TCPClient {
     return ok({ reading: false });
   }
 
-  async setReadTimeout(args: { connectionId: string; readTimeout: number }): Promise<Std> {
+  async setReadTimeout(args: { connectionId: string; readTimeout: number }, sender?: WebContents): Promise<Std> {
+    if (this.foreign(args.connectionId, sender)) return fail(NOT_OWNER);
     const timeout = this.positiveInt(args?.readTimeout, 1000, 1, MAX_TIMER_MS);
     const st = this.conns.get(args.connectionId);
     if (st) st.readTimeout = timeout;
@@ -602,53 +1508,142 @@ export class TCPClient {
     return ok({ platform: 'electron' as const });
   }
 
-  async destroyConnection(args: { connectionId: string }): Promise<Std> {
+  async destroyConnection(args: { connectionId: string }, sender?: WebContents): Promise<Std> {
+    if (this.foreign(args.connectionId, sender)) return fail(NOT_OWNER);
     await this.disconnect(args);
     this.conns.delete(args.connectionId);
     this.pendingReadTimeouts.delete(args.connectionId);
     return ok();
   }
 
-  async writeAndRead(args: {
-    connectionId: string;
-    data: number[];
-    timeout?: number;
-    maxBytes?: number;
-    expect?: ExpectInput;
-    suspendStreamDuringRR?: boolean;
-  }): Promise<Std<{ data: number[]; bytesSent: number; bytesReceived: number; matched: boolean }>> {
+  async writeAndRead(
+    args: {
+      connectionId: string;
+      data: number[] | Uint8Array | string;
+      dataEncoding?: DataEncoding;
+      timeout?: number;
+      maxBytes?: number;
+      expect?: ExpectPatternsInput;
+      lengthField?: LengthFieldInput | null;
+      suspendStreamDuringRR?: boolean;
+    },
+    sender?: WebContents,
+  ): Promise<Std<RRResult>> {
     const { connectionId } = args;
+    if (this.foreign(connectionId, sender)) return fail(NOT_OWNER, emptyRR());
     const st = this.conns.get(connectionId);
 
     if (!st || !this.isOpen(st) || !st.sock) {
-      return fail('not connected', { data: [], bytesSent: 0, bytesReceived: 0, matched: false });
+      return fail('not connected', emptyRR());
     }
     if (st.ioInFlight || st.rrInFlight) {
-      return fail('busy', { data: [], bytesSent: 0, bytesReceived: 0, matched: false });
-    }
-
-    const timeout = this.positiveInt(args.timeout, st.readTimeout ?? 1000, 1, MAX_TIMER_MS);
-    const cap = this.positiveInt(args.maxBytes, DEFAULT_CHUNK_SIZE, 1, MAX_BUFFER_BYTES);
-    const parsedExpect = parseExpectBytes(args.expect);
-    if (!parsedExpect.ok) {
-      return fail('invalid expect (hex or byte array expected)', {
-        data: [],
-        bytesSent: 0,
-        bytesReceived: 0,
-        matched: false,
-      });
+      return fail('busy', emptyRR());
     }
-    const expectBuf = parsedExpect.bytes ? Buffer.from(parsedExpect.bytes) : null;
-    const reqBuf = this.jsArrToBuf(args.data ?? []);
+
+    const rules = this.parseReplyRules(st, args);
+    if (typeof rules === 'string') {
+      return fail(rules, emptyRR());
+    }
+    const reqBuf = this.payloadToBuf(args.data ?? [], rules.encoding);
     if (!reqBuf) {
-      return fail('data must be an array of bytes', { data: [], bytesSent: 0, bytesReceived: 0, matched: false });
+      return fail('data must be an array of bytes', emptyRR());
     }
+    return this.collectReply(connectionId, st, rules, reqBuf);
+  }
+
+  /**
+   * Pull-based read: the reply half of writeAndRead without the write step.
+   * Same completion rules, busy check and stream suspension; `exactBytes` completes once
+   * that many bytes arrived and leaves any later bytes unread on the socket.
+   */
+  async read(
+    args: {
+      connectionId: string;
+      timeout?: number;
+      maxBytes?: number;
+      exactBytes?: number;
+      expect?: ExpectPatternsInput;
+      lengthField?: LengthFieldInput | null;
+      suspendStreamDuringRR?: boolean;
+      dataEncoding?: DataEncoding;
+    },
+    sender?: WebContents,
+  ): Promise<Std<ReadResult>> {
+    const { connectionId } = args;
+    if (this.foreign(connectionId, sender)) return fail(NOT_OWNER, toReadResult(emptyRR()));
+    const st = this.conns.get(connectionId);
+
+    if (!st || !this.isOpen(st) || !st.sock) {
+      return fail('not connected', toReadResult(emptyRR()));
+    }
+    if (st.ioInFlight || st.rrInFlight) {
+      return fail('busy', toReadResult(emptyRR()));
+    }
+
+    const rules = this.parseReplyRules(st, args);
+    if (typeof rules === 'string') {
+      return fail(rules, toReadResult(emptyRR()));
+    }
+    if (args.exactBytes != null) {
+      const exactBytes = args.exactBytes;
+      if (!Number.isInteger(exactBytes) || exactBytes < 1 || exactBytes > MAX_BUFFER_BYTES) {
+        return fail('invalid exactBytes', toReadResult(emptyRR()));
+      }
+      rules.exactBytes = exactBytes;
+      rules.cap = exactBytes;
+    }
+    const res = await this.collectReply(connectionId, st, rules, null);
+    return res.error ? fail(res.errorMessage, toReadResult(res)) : ok(toReadResult(res));
+  }
+
+  /** Validate the completion options shared by writeAndRead and read; returns an error message on invalid input. */
+  private parseReplyRules(
+    st: SocketState,
+    args: {
+      timeout?: number;
+      maxBytes?: number;
+      expect?: ExpectPatternsInput;
+      lengthField?: LengthFieldInput | null;
+      suspendStreamDuringRR?: boolean;
+      dataEncoding?: DataEncoding;
+    },
+  ): ReplyRules | string {
+    const parsedExpect = parseExpectPatterns(args.expect);
+    if (!parsedExpect.ok) return 'invalid expect (hex or byte array expected)';
+    const parsedLengthField = parseLengthField(args.lengthField);
+    if (!parsedLengthField.ok) return 'invalid lengthField';
+    const encoding = parseDataEncoding(args.dataEncoding);
+    if (!encoding) return 'invalid dataEncoding';
+    return {
+      timeout: this.positiveInt(args.timeout, st.readTimeout ?? 1000, 1, MAX_TIMER_MS),
+      cap: this.positiveInt(args.maxBytes, DEFAULT_CHUNK_SIZE, 1, MAX_BUFFER_BYTES),
+      expectPatterns: parsedExpect.patterns,
+      lengthSpec: parsedLengthField.spec,
+      exactBytes: 0,
+      suspendStream: !!(args.suspendStreamDuringRR ?? true),
+      encoding,
+    };
+  }
+
+  /**
+   * RR accumulator: optionally write `reqBuf`, then collect the reply until a completion rule,
+   * the byte cap, the idle window (no rule set) or the timeout ends it.
+   */
+  private collectReply(
+    connectionId: string,
+    st: SocketState,
+    rules: ReplyRules,
+    reqBuf: Buffer | null,
+  ): Promise<Std<RRResult>> {
+    const { timeout, cap, expectPatterns, lengthSpec, exactBytes } = rules;
+    const longestPattern = expectPatterns.reduce((max, p) => Math.max(max, p.bytes.length), 0);
+    const label = reqBuf ? 'writeAndRead' : 'read';
     st.rrInFlight = true;
     st.ioInFlight = true;
 
     const s = st.sock!;
     const wasReading = st.reading;
-    const shouldSuspend = !!(args.suspendStreamDuringRR ?? true) && wasReading;
+    const shouldSuspend = rules.suspendStream && wasReading;
     const suspendedStreamDataHandler = shouldSuspend ? st.streamDataHandler : undefined;
 
     // suspend stream reader so it does not consume the reply bytes
@@ -657,152 +1652,183 @@ export class TCPClient {
       s.off('data', suspendedStreamDataHandler);
     }
 
-    const bytesSent = reqBuf.length;
+    const bytesSent = reqBuf?.length ?? 0;
+    const startedAt = Date.now();
+    let firstByteAt = 0;
     let matched = false;
+    let matchedIndex = -1;
+    let matchOffset = -1;
 
-    return new Promise<Std<{ data: number[]; bytesSent: number; bytesReceived: number; matched: boolean }>>(
-      (resolve) => {
-        let timer: NodeJS.Timeout | null = null;
-        let idleTimer: NodeJS.Timeout | null = null;
-        let settled = false;
-        let writeFinished = false;
-        let socketError: Error | null = null;
-
-        const chunks: Buffer[] = [];
-        let size = 0;
-
-        // adaptive until-idle (like iOS)
-        let lastDataAt = 0;
-        const interArr: number[] = []; // ms intervals, keep last 5
-
-        const currentIdleMs = () => {
-          if (interArr.length === 0) return MIN_RR_IDLE_MS;
-          const sorted = [...interArr].sort((a, b) => a - b);
-          const med =
-            sorted.length % 2
-              ? sorted[(sorted.length / 2) | 0]
-              : 0.5 * (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]);
-          return Math.max(MIN_RR_IDLE_MS, Math.min(MAX_RR_IDLE_MS, Math.round(med * 1.75)));
-        };
+    return new Promise<Std<RRResult>>((resolve) => {
+      let timer: NodeJS.Timeout | null = null;
+      let idleTimer: NodeJS.Timeout | null = null;
+      let settled = false;
+      let writeFinished = !reqBuf;
+      let socketError: Error | null = null;
 
-        const armIdle = () => {
-          if (idleTimer) clearTimeout(idleTimer);
-          idleTimer = setTimeout(() => finish(Buffer.concat(chunks, Math.min(size, cap))), currentIdleMs());
-        };
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      // adaptive until-idle (like iOS)
+      let lastDataAt = 0;
+      const interArr: number[] = []; // ms intervals, keep last 5
+
+      const currentIdleMs = () => {
+        if (interArr.length === 0) return MIN_RR_IDLE_MS;
+        const sorted = [...interArr].sort((a, b) => a - b);
+        const med =
+          sorted.length % 2
+            ? sorted[(sorted.length / 2) | 0]
+            : 0.5 * (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]);
+        return Math.max(MIN_RR_IDLE_MS, Math.min(MAX_RR_IDLE_MS, Math.round(med * 1.75)));
+      };
 
-        const finish = (out: Buffer | null, err?: string) => {
-          if (settled) return;
-          settled = true;
-          if (timer) {
-            clearTimeout(timer);
-            timer = null;
-          }
-          if (idleTimer) {
-            clearTimeout(idleTimer);
-            idleTimer = null;
-          }
-          s.off('data', onData);
-          s.off('error', onError);
-          s.off('close', onClose);
-          // resume stream reader
-          if (
-            suspendedStreamDataHandler &&
-            st.streamDataHandler === suspendedStreamDataHandler &&
-            st.sock === s &&
-            !s.destroyed
-          ) {
-            s.on('data', suspendedStreamDataHandler);
-          }
-          st.rrInFlight = false;
-          st.ioInFlight = false;
+      const armIdle = () => {
+        if (idleTimer) clearTimeout(idleTimer);
+        idleTimer = setTimeout(() => finish(Buffer.concat(chunks, Math.min(size, cap))), currentIdleMs());
+      };
 
-          if (err) {
-            const isTimeout = err === 'timeout';
-            resolve(fail(err, { data: [], bytesSent: isTimeout ? bytesSent : 0, bytesReceived: 0, matched: false }));
-          } else {
-            const resBuf = (out ?? Buffer.alloc(0)).subarray(0, cap);
-            resolve(ok({ data: Array.from(resBuf.values()), bytesSent, bytesReceived: resBuf.length, matched }));
-          }
-        };
+      const finish = (out: Buffer | null, err?: string) => {
+        if (settled) return;
+        settled = true;
+        if (timer) {
+          clearTimeout(timer);
+          timer = null;
+        }
+        if (idleTimer) {
+          clearTimeout(idleTimer);
+          idleTimer = null;
+        }
+        s.off('data', onData);
+        s.off('error', onError);
+        s.off('close', onClose);
+        // resume stream reader
+        if (
+          suspendedStreamDataHandler &&
+          st.streamDataHandler === suspendedStreamDataHandler &&
+          st.sock === s &&
+          !s.destroyed
+        ) {
+          s.on('data', suspendedStreamDataHandler);
+        }
+        // read(): keep later bytes queued on the socket for the next read instead of dropping them
+        if (!reqBuf && s.listenerCount('data') === 0 && !s.destroyed) s.pause();
+        st.rrInFlight = false;
+        st.ioInFlight = false;
+
+        if (err) {
+          const isTimeout = err === 'timeout';
+          resolve(fail(err, emptyRR(isTimeout ? bytesSent : 0)));
+        } else {
+          const resBuf = (out ?? Buffer.alloc(0)).subarray(0, cap);
+          resolve(
+            ok({
+              data: encodeData(resBuf, rules.encoding),
+              bytesSent,
+              bytesReceived: resBuf.length,
+              matched,
+              matchedIndex,
+              matchOffset,
+              ...(reqBuf && firstByteAt ? { firstByteMs: firstByteAt - startedAt } : {}),
+            }),
+          );
+        }
+      };
 
-        const onData = (chunk: Buffer) => {
-          const remaining = cap - size;
-          const accepted = remaining > 0 && chunk.length > remaining ? chunk.subarray(0, remaining) : chunk;
-          chunks.push(accepted);
-          size += accepted.length;
-
-          const now = Date.now();
-          if (lastDataAt > 0) {
-            const d = now - lastDataAt;
-            interArr.push(d);
-            if (interArr.length > 5) interArr.splice(0, interArr.length - 5);
-          }
-          lastDataAt = now;
+      const onData = (chunk: Buffer) => {
+        const remaining = cap - size;
+        const accepted = remaining > 0 && chunk.length > remaining ? chunk.subarray(0, remaining) : chunk;
+        chunks.push(accepted);
+        size += accepted.length;
+
+        const now = Date.now();
+        if (!firstByteAt) firstByteAt = now;
+        if (lastDataAt > 0) {
+          const d = now - lastDataAt;
+          interArr.push(d);
+          if (interArr.length > 5) interArr.splice(0, interArr.length - 5);
+        }
+        lastDataAt = now;
 
-          const current = Buffer.concat(chunks, Math.min(size, cap));
+        const current = Buffer.concat(chunks, Math.min(size, cap));
+        // read(): bytes past the cap belong to the next read, so hand them back to the socket
+        const complete = () => {
+          finish(current);
+          if (!reqBuf && accepted.length < chunk.length && !s.destroyed) s.unshift(chunk.subarray(accepted.length));
+        };
 
-          if (expectBuf) {
-            if (current.indexOf(expectBuf) >= 0) {
-              matched = true;
-              finish(current);
-              return;
-            }
-            if (current.length >= cap) {
-              matched = false;
-              finish(current);
-              return;
-            }
-            // keep waiting for more data
+        // starts before this point were already searched; a match may still straddle the chunk boundary
+        const searchFrom = Math.max(0, current.length - accepted.length - longestPattern + 1);
+        const match = expectPatterns.length ? findExpectMatch(current, expectPatterns, searchFrom) : null;
+        if (match) {
+          matched = true;
+          matchedIndex = match.index;
+          matchOffset = match.offset;
+          complete();
+          return;
+        }
+        if (lengthSpec) {
+          const frameSize = lengthFieldFrameSize(lengthSpec, current);
+          if (frameSize !== undefined && frameSize >= 0 && current.length >= frameSize) {
+            matched = true;
+            complete();
             return;
           }
+        }
+        if (current.length >= cap) {
+          // with exactBytes the cap is the completion rule
+          matched = exactBytes > 0;
+          complete();
+          return;
+        }
+        // an exact completion rule is set: keep waiting for more data
+        if (expectPatterns.length || lengthSpec || exactBytes) return;
 
-          // no expect: adaptive until-idle
-          if (current.length >= cap) {
-            matched = false;
-            finish(current);
-            return;
-          }
-          armIdle();
-        };
+        // no expect: adaptive until-idle
+        armIdle();
+      };
 
-        const onError = (err: Error) => {
-          socketError = err;
-          finish(null, `writeAndRead failed: ${err.message}`);
-        };
-        const onClose = () => {
-          const err = socketError ?? st.lastSocketError;
-          if (size > 0) {
-            finish(Buffer.concat(chunks, Math.min(size, cap)));
-          } else {
-            finish(null, err ? `connection closed: ${err.message}` : 'connection closed');
-          }
-        };
+      const onError = (err: Error) => {
+        socketError = err;
+        finish(null, `${label} failed: ${err.message}`);
+      };
+      const onClose = () => {
+        const err = socketError ?? st.lastSocketError;
+        if (size > 0) {
+          finish(Buffer.concat(chunks, Math.min(size, cap)));
+        } else {
+          finish(null, err ? `connection closed: ${err.message}` : 'connection closed');
+        }
+      };
 
-        timer = setTimeout(() => {
-          if (!writeFinished) {
-            st.lastSocketError = new Error('write timeout');
-            if (st.sock === s && !s.destroyed) s.destroy(st.lastSocketError);
-            finish(null, 'write timeout');
-            return;
-          }
-          const out = size > 0 ? Buffer.concat(chunks, Math.min(size, cap)) : null;
-          if (out) {
-            matched = false;
-            finish(out);
-          } else {
-            finish(null, 'timeout');
-          }
-        }, timeout);
+      timer = setTimeout(() => {
+        if (!writeFinished) {
+          st.lastSocketError = new Error('write timeout');
+          if (st.sock === s && !s.destroyed) s.destroy(st.lastSocketError);
+          finish(null, 'write timeout');
+          return;
+        }
+        const out = size > 0 ? Buffer.concat(chunks, Math.min(size, cap)) : null;
+        if (out) {
+          matched = false;
+          finish(out);
+        } else {
+          finish(null, 'timeout');
+        }
+      }, timeout);
 
-        s.on('data', onData);
-        s.once('error', onError);
-        s.prependOnceListener('close', onClose);
+      s.on('data', onData);
+      s.once('error', onError);
+      s.prependOnceListener('close', onClose);
+      // a previous read() may have paused the socket to hold unread bytes
+      if (s.isPaused()) s.resume();
 
+      if (reqBuf) {
         s.write(reqBuf, (err) => {
           writeFinished = true;
           if (err) finish(null, `write failed: ${err.message}`);
         });
-      },
-    );
+      }
+    });
   }
 }
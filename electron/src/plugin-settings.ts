@@ -16,11 +16,15 @@ export const pluginSettings = {
     'disconnect',
     'isConnected',
     'isReading',
+    'getConnectionInfo',
+    'listConnections',
     'write',
     'startRead',
     'stopRead',
     'setReadTimeout',
     'writeAndRead',
+    'read',
+    'upgradeToTls',
     'destroyConnection',
   ] as const,
   pluginEvents: ['tcpData', 'tcpDisconnect'] as const,
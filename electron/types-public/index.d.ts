@@ -1,12 +1,21 @@
+import type { WebContents } from 'electron';
+
 import type {
   TcpConnectOptions,
   TcpConnectResult,
+  TcpConnectionInfoResult,
+  TcpConnectionSummary,
+  TcpData,
   TcpDisconnectResult,
   TcpGetPlatformResult,
   TcpIsConnectedResult,
   TcpIsReadingResult,
+  TcpReadOptions,
+  TcpReadResult,
   TcpStartReadOptions,
   TcpStartStopResult,
+  TcpUpgradeTlsOptions,
+  TcpUpgradeTlsResult,
   TcpWriteAndReadOptions,
   TcpWriteAndReadResult,
   TcpWriteOptions,
@@ -15,17 +24,40 @@ import type {
 
 export declare class TCPClient {
   getPluginPlatform(): Promise<TcpGetPlatformResult>;
-  connect(args: TcpConnectOptions & { connectionId: string }): Promise<TcpConnectResult>;
-  disconnect(args: { connectionId: string }): Promise<TcpDisconnectResult>;
-  isConnected(args: { connectionId: string }): Promise<TcpIsConnectedResult>;
-  isReading(args: { connectionId: string }): Promise<TcpIsReadingResult>;
-  write(args: TcpWriteOptions & { connectionId: string }): Promise<TcpWriteResult>;
-  writeAndRead(args: TcpWriteAndReadOptions & { connectionId: string }): Promise<TcpWriteAndReadResult>;
-  startRead(args: TcpStartReadOptions & { connectionId: string }): Promise<TcpStartStopResult>;
-  stopRead(args: { connectionId: string }): Promise<TcpStartStopResult>;
-  setReadTimeout(args: {
-    connectionId: string;
-    readTimeout: number;
-  }): Promise<{ error: boolean; errorMessage?: string | null }>;
-  destroyConnection(args: { connectionId: string }): Promise<{ error: boolean; errorMessage?: string | null }>;
+  connect(args: TcpConnectOptions & { connectionId: string }, sender?: WebContents): Promise<TcpConnectResult>;
+  disconnect(args: { connectionId: string }, sender?: WebContents): Promise<TcpDisconnectResult>;
+  isConnected(args: { connectionId: string }, sender?: WebContents): Promise<TcpIsConnectedResult>;
+  isReading(args: { connectionId: string }, sender?: WebContents): Promise<TcpIsReadingResult>;
+  getConnectionInfo(args: { connectionId: string }, sender?: WebContents): Promise<TcpConnectionInfoResult>;
+  listConnections(
+    args?: object,
+    sender?: WebContents,
+  ): Promise<{
+    error: boolean;
+    errorMessage?: string | null;
+    connections: Omit<TcpConnectionSummary, 'registered' | 'native'>[];
+  }>;
+  write(args: TcpWriteOptions & { connectionId: string }, sender?: WebContents): Promise<TcpWriteResult>;
+  writeAndRead(
+    args: TcpWriteAndReadOptions & { connectionId: string },
+    sender?: WebContents,
+  ): Promise<TcpWriteAndReadResult<TcpData>>;
+  read(args: TcpReadOptions & { connectionId: string }, sender?: WebContents): Promise<TcpReadResult<TcpData>>;
+  startRead(args: TcpStartReadOptions & { connectionId: string }, sender?: WebContents): Promise<TcpStartStopResult>;
+  stopRead(args: { connectionId: string }, sender?: WebContents): Promise<TcpStartStopResult>;
+  setReadTimeout(
+    args: {
+      connectionId: string;
+      readTimeout: number;
+    },
+    sender?: WebContents,
+  ): Promise<{ error: boolean; errorMessage?: string | null }>;
+  upgradeToTls(
+    args: Omit<TcpUpgradeTlsOptions, 'priority' | 'queueTimeout'> & { connectionId: string },
+    sender?: WebContents,
+  ): Promise<TcpUpgradeTlsResult>;
+  destroyConnection(
+    args: { connectionId: string },
+    sender?: WebContents,
+  ): Promise<{ error: boolean; errorMessage?: string | null }>;
 }
@@ -9,6 +9,8 @@ export default tseslint.config(
       'dist/',
       'electron/dist/',
       'electron/build/',
+      'relay/dist/',
+      'relay/build/',
       'node_modules/',
       'build/',
       '.build/',
@@ -4,21 +4,92 @@ import Capacitor
 extension TCPClientPlugin {
     private static var maxBytePayloadLength: Int { 16 * 1024 * 1024 }
 
-    /// Build an optional byte-pattern matcher from the "expect" call parameter.
-    func buildMatcher(_ call: CAPPluginCall) throws -> ((Data) -> Bool)? {
-        if let hexStr = call.getString("expect") {
-            return try matcherFromHex(hexStr)
+    /// Parse the "expect" call parameter into alternative byte patterns.
+    /// A hex string (with optional "??" wildcards), number[], byte object or `{ bytes, mask }` is one pattern;
+    /// an array of those lists alternatives.
+    /// Returns [] when no pattern is given; an empty alternative is invalid.
+    func expectPatterns(_ call: CAPPluginCall) throws -> [ExpectPattern] {
+        guard let value = call.options["expect"], !(value is NSNull) else { return [] }
+        if let list = value as? [Any], !list.isEmpty, !list.contains(where: { $0 is NSNumber }) {
+            return try list.map { (alternative: Any) throws -> ExpectPattern in
+                guard let pattern = expectPattern(alternative), !pattern.bytes.isEmpty else {
+                    throw invalidOptionError("invalid expect (hex or byte array expected)")
+                }
+                return pattern
+            }
+        }
+        guard let pattern = expectPattern(value) else {
+            throw invalidOptionError("invalid expect (hex or byte array expected)")
+        }
+        return pattern.bytes.isEmpty ? [] : [pattern]
+    }
+
+    /// Build an optional byte-pattern matcher that passes once any pattern is found.
+    func buildMatcher(_ patterns: [ExpectPattern]) -> ((Data) -> Bool)? {
+        guard !patterns.isEmpty else { return nil }
+        return { buf in patterns.contains { $0.firstOffset(in: buf) != nil } }
+    }
+
+    /// Earliest match of any pattern; ties at the same offset go to the lower pattern index.
+    func findExpectMatch(_ buf: Data, _ patterns: [ExpectPattern]) -> (index: Int, offset: Int)? {
+        var best: (index: Int, offset: Int)?
+        for (index, pattern) in patterns.enumerated() {
+            guard let offset = pattern.firstOffset(in: buf) else { continue }
+            if let current = best, current.offset <= offset { continue }
+            best = (index, offset)
         }
-        if let arr = call.getArray("expect", UInt.self) {
-            return try matcherFromArray(arr)
+        return best
+    }
+
+    /// Build an optional completion check from the "lengthField" call parameter.
+    /// The check passes once the frame announced by the reply header is complete.
+    func buildLengthFieldMatcher(_ call: CAPPluginCall) throws -> ((Data) -> Bool)? {
+        guard hasPresentOption(call, "lengthField") else { return nil }
+        guard let obj = call.getObject("lengthField") else { throw invalidOptionError("invalid lengthField") }
+        let offset = try lengthFieldInt(obj, "offset", fallback: 0)
+        let size = try lengthFieldInt(obj, "size", fallback: 2)
+        let adjustment = try lengthFieldInt(obj, "adjustment", fallback: 0)
+        guard offset >= 0, offset <= Self.maxBytePayloadLength, [1, 2, 4].contains(size),
+              abs(adjustment) <= Self.maxBytePayloadLength else {
+            throw invalidOptionError("invalid lengthField")
         }
-        if let obj = call.getObject("expect"), let bytes = bytesFromObject(obj) {
-            return matcherFromBytes(bytes)
+        let littleEndian: Bool
+        switch obj["endian"] {
+        case nil, is NSNull: littleEndian = false
+        case let endian as String where endian == "big": littleEndian = false
+        case let endian as String where endian == "little": littleEndian = true
+        default: throw invalidOptionError("invalid lengthField")
         }
-        if hasPresentOption(call, "expect") {
-            throw invalidExpectError("invalid expect (hex or byte array expected)")
+        let includesHeader: Bool
+        switch obj["includesHeader"] {
+        case nil, is NSNull: includesHeader = false
+        case let flag as Bool: includesHeader = flag
+        default: throw invalidOptionError("invalid lengthField")
         }
-        return nil
+
+        let header = offset + size
+        return { buf in
+            guard buf.count >= header else { return false }
+            var declared = 0
+            for step in 0..<size {
+                let idx = offset + (littleEndian ? size - 1 - step : step)
+                declared = declared * 256 + Int(buf[buf.startIndex + idx])
+            }
+            let total = (includesHeader ? 0 : header) + declared + adjustment
+            return total >= header && buf.count >= total
+        }
+    }
+
+    /// Parse the read() "exactBytes" option; nil when absent.
+    func exactBytesOption(_ call: CAPPluginCall) throws -> Int? {
+        guard hasPresentOption(call, "exactBytes") else { return nil }
+        if let number = call.options["exactBytes"] as? NSNumber, CFGetTypeID(number) != CFBooleanGetTypeID() {
+            let double = number.doubleValue
+            if double.rounded(.towardZero) == double, double >= 1, double <= Double(Self.maxBytePayloadLength) {
+                return Int(double)
+            }
+        }
+        throw invalidOptionError("invalid exactBytes")
     }
 
     /// Extract bytes from "data" field; accepts number[] or Uint8Array object.
@@ -46,36 +117,71 @@ extension TCPClientPlugin {
         return !(value is NSNull)
     }
 
-    private func matcherFromHex(_ hexStr: String) throws -> ((Data) -> Bool)? {
-        if hexStr.isEmpty { return nil }
+    private func expectPattern(_ value: Any) -> ExpectPattern? {
+        if let hexStr = value as? String {
+            return hexStr.isEmpty ? ExpectPattern(bytes: [], mask: nil) : patternFromHex(hexStr)
+        }
+        if let list = value as? [Any] {
+            guard list.count <= Self.maxBytePayloadLength else { return nil }
+            let bytes = list.compactMap { byteValue($0) }
+            return bytes.count == list.count ? ExpectPattern(bytes: bytes, mask: nil) : nil
+        }
+        if let obj = value as? JSObject {
+            if obj["bytes"] != nil { return maskedPattern(obj) }
+            return bytesFromObject(obj).map { ExpectPattern(bytes: $0, mask: nil) }
+        }
+        return nil
+    }
+
+    /// `{ bytes, mask }`: only the bits set in mask must match; both must have the same length.
+    private func maskedPattern(_ obj: JSObject) -> ExpectPattern? {
+        guard let bytesValue = obj["bytes"], let maskValue = obj["mask"],
+              let pattern = expectPattern(bytesValue), let mask = expectPattern(maskValue),
+              !pattern.bytes.isEmpty, mask.mask == nil, mask.bytes.count == pattern.bytes.count else {
+            return nil
+        }
+        let base = pattern.mask ?? [UInt8](repeating: 0xFF, count: pattern.bytes.count)
+        return ExpectPattern(bytes: pattern.bytes, mask: zip(base, mask.bytes).map { $0 & $1 })
+    }
+
+    /// Hex pattern where "??" is a wildcard byte ("1B ?? 40").
+    private func patternFromHex(_ hexStr: String) -> ExpectPattern? {
         let clean = String(hexStr.lowercased().replacingOccurrences(of: "0x", with: "").filter { !$0.isWhitespace })
-        guard !clean.isEmpty, clean.count % 2 == 0 else { throw invalidExpectError("invalid expect (hex)") }
+        guard !clean.isEmpty, clean.count % 2 == 0 else { return nil }
 
-        var pattern = Data(capacity: clean.count / 2)
+        var bytes = [UInt8]()
+        var mask = [UInt8]()
+        bytes.reserveCapacity(clean.count / 2)
+        mask.reserveCapacity(clean.count / 2)
         var idx = clean.startIndex
         while idx < clean.endIndex {
             let nextIdx = clean.index(idx, offsetBy: 2)
-            guard let byte = UInt8(clean[idx..<nextIdx], radix: 16) else {
-                throw invalidExpectError("invalid expect (hex)")
+            let pair = clean[idx..<nextIdx]
+            if pair == "??" {
+                bytes.append(0)
+                mask.append(0)
+            } else {
+                guard let byte = UInt8(pair, radix: 16) else { return nil }
+                bytes.append(byte)
+                mask.append(0xFF)
             }
-            pattern.append(byte)
             idx = nextIdx
         }
-        return matcherFromBytes(Array(pattern))
-    }
-
-    private func matcherFromArray(_ arr: [UInt]) throws -> ((Data) -> Bool)? {
-        if arr.isEmpty { return nil }
-        guard let bytes = bytesFromArray(arr) else { throw invalidExpectError("invalid expect (number[])") }
-        return matcherFromBytes(bytes)
+        return ExpectPattern(bytes: bytes, mask: mask)
     }
 
-    private func matcherFromBytes(_ bytes: [UInt8]) -> ((Data) -> Bool) {
-        let pattern = Data(bytes)
-        return { buf in buf.range(of: pattern) != nil }
+    private func lengthFieldInt(_ obj: JSObject, _ key: String, fallback: Int) throws -> Int {
+        guard let value = obj[key], !(value is NSNull) else { return fallback }
+        if let number = value as? NSNumber, CFGetTypeID(number) != CFBooleanGetTypeID() {
+            let double = number.doubleValue
+            if double.isFinite, double.rounded(.towardZero) == double, abs(double) <= Double(Int32.max) {
+                return Int(double)
+            }
+        }
+        throw invalidOptionError("invalid lengthField")
     }
 
-    private func invalidExpectError(_ message: String) -> NSError {
+    private func invalidOptionError(_ message: String) -> NSError {
         NSError(domain: "TCPClientPlugin", code: 1, userInfo: [NSLocalizedDescriptionKey: message])
     }
 
@@ -114,3 +220,34 @@ extension TCPClientPlugin {
         return UInt8(value)
     }
 }
+
+/// Expect pattern; `bytes` are stored pre-masked and `mask` is nil when every bit must match.
+struct ExpectPattern {
+    let bytes: [UInt8]
+    let mask: [UInt8]?
+
+    init(bytes: [UInt8], mask: [UInt8]?) {
+        guard let mask = mask, !mask.allSatisfy({ $0 == 0xFF }) else {
+            self.bytes = bytes
+            self.mask = nil
+            return
+        }
+        self.bytes = zip(bytes, mask).map { $0 & $1 }
+        self.mask = mask
+    }
+
+    /// Offset of the first match in `buf`, or nil.
+    func firstOffset(in buf: Data) -> Int? {
+        guard let mask = mask else {
+            return buf.range(of: Data(bytes)).map { $0.lowerBound - buf.startIndex }
+        }
+        guard !bytes.isEmpty, buf.count >= bytes.count else { return nil }
+        for offset in 0...(buf.count - bytes.count) {
+            let start = buf.startIndex + offset
+            var idx = 0
+            while idx < bytes.count, buf[start + idx] & mask[idx] == bytes[idx] { idx += 1 }
+            if idx == bytes.count { return offset }
+        }
+        return nil
+    }
+}
@@ -10,11 +10,15 @@ public class TCPClientPlugin: CAPPlugin, CAPBridgedPlugin {
         CAPPluginMethod(name: "disconnect", returnType: CAPPluginReturnPromise),
         CAPPluginMethod(name: "isConnected", returnType: CAPPluginReturnPromise),
         CAPPluginMethod(name: "isReading", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "getConnectionInfo", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "listConnections", returnType: CAPPluginReturnPromise),
         CAPPluginMethod(name: "write", returnType: CAPPluginReturnPromise),
         CAPPluginMethod(name: "startRead", returnType: CAPPluginReturnPromise),
         CAPPluginMethod(name: "stopRead", returnType: CAPPluginReturnPromise),
         CAPPluginMethod(name: "setReadTimeout", returnType: CAPPluginReturnPromise),
         CAPPluginMethod(name: "writeAndRead", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "read", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "upgradeToTls", returnType: CAPPluginReturnPromise),
         CAPPluginMethod(name: "destroyConnection", returnType: CAPPluginReturnPromise),
         CAPPluginMethod(name: "getPluginPlatform", returnType: CAPPluginReturnPromise)
     ]
@@ -27,6 +31,9 @@ public class TCPClientPlugin: CAPPlugin, CAPBridgedPlugin {
         let delegate: ConnDelegate
         var pendingBuffer = [UInt8]()
         var flushWorkItem: DispatchWorkItem?
+        /// Target of the last connect(), reported by listConnections().
+        var host: String?
+        var port = 0
 
         init(id: String, plugin: TCPClientPlugin) {
             self.delegate = ConnDelegate(id, plugin)
@@ -100,11 +107,28 @@ public class TCPClientPlugin: CAPPlugin, CAPBridgedPlugin {
         guard (1...65535).contains(port) else {
             call.resolve(["error": true, "errorMessage": "invalid port", "connected": false]); return
         }
+        // TLS and proxies are implemented on Electron only; never fall back to a direct plaintext connection
+        if let tls = call.options["tls"], !(tls is NSNull), (tls as? Bool) != false {
+            call.resolve(["error": true, "errorMessage": "tls is only supported on Electron", "connected": false]); return
+        }
+        if let proxy = call.options["proxy"], !(proxy is NSNull) {
+            call.resolve(["error": true, "errorMessage": "proxy is only supported on Electron", "connected": false]); return
+        }
+        // binding an interface is Electron only as well; never connect through another one silently
+        let isSet = { (key: String) -> Bool in
+            guard let value = call.options[key] else { return false }
+            return !(value is NSNull)
+        }
+        if isSet("localAddress") || isSet("localPort") || (isSet("family") && call.getString("family") != "auto") {
+            call.resolve(["error": true, "errorMessage": "localAddress, localPort and family are only supported on Electron", "connected": false]); return
+        }
         let timeout = call.getInt("timeout") ?? 3000
         let noDelay = call.getBool("noDelay") ?? true
         let keepAlive = call.getBool("keepAlive") ?? true
 
         let state = getOrCreate(connectionId)
+        state.host = host
+        state.port = port
         state.client.connect(host: host, port: UInt16(port), timeout: timeout, noDelay: noDelay, keepAlive: keepAlive) { res in
             switch res {
             case .success:
@@ -150,6 +174,21 @@ public class TCPClientPlugin: CAPPlugin, CAPBridgedPlugin {
         call.resolve(["error": false, "errorMessage": NSNull(), "reading": reading])
     }
 
+    @objc func getConnectionInfo(_ call: CAPPluginCall) {
+        if dispatchToMainIfNeeded({ self.getConnectionInfo(call) }) { return }
+        guard let connectionId = call.getString("connectionId"), !connectionId.isEmpty else {
+            call.resolve(["error": true, "errorMessage": "connectionId is required", "connected": false, "reading": false]); return
+        }
+        let client = connections[connectionId]?.client
+        // socket details and counters are reported by Electron and web only
+        call.resolve([
+            "error": false,
+            "errorMessage": NSNull(),
+            "connected": client?.isConnected() ?? false,
+            "reading": client?.isReading() ?? false
+        ])
+    }
+
     @objc func write(_ call: CAPPluginCall) {
         if dispatchToMainIfNeeded({ self.write(call) }) { return }
         guard let connectionId = call.getString("connectionId"), !connectionId.isEmpty else {
@@ -211,43 +250,100 @@ public class TCPClientPlugin: CAPPlugin, CAPBridgedPlugin {
     @objc func writeAndRead(_ call: CAPPluginCall) {
         if dispatchToMainIfNeeded({ self.writeAndRead(call) }) { return }
         guard let connectionId = call.getString("connectionId"), !connectionId.isEmpty else {
-            call.resolve(["error": true, "errorMessage": "connectionId is required",
-                          "bytesSent": 0, "bytesReceived": 0, "data": [], "matched": false]); return
+            call.resolve(rrFailure("connectionId is required", bytesSent: 0)); return
         }
         guard let state = connections[connectionId] else {
-            call.resolve(["error": true, "errorMessage": "not connected",
-                          "bytesSent": 0, "bytesReceived": 0, "data": [], "matched": false]); return
+            call.resolve(rrFailure("not connected", bytesSent: 0)); return
         }
         guard let bytes = extractBytes(call) else {
-            call.resolve(["error": true, "errorMessage": "invalid data (expected number[] / Uint8Array)",
-                          "bytesSent": 0, "bytesReceived": 0, "data": [], "matched": false]); return
+            call.resolve(rrFailure("invalid data (expected number[] / Uint8Array)", bytesSent: 0)); return
+        }
+        runReadOperation(call, state: state, request: bytes)
+    }
+
+    /// Pull-based read: the reply half of writeAndRead without the write step.
+    @objc func read(_ call: CAPPluginCall) {
+        if dispatchToMainIfNeeded({ self.read(call) }) { return }
+        guard let connectionId = call.getString("connectionId"), !connectionId.isEmpty else {
+            call.resolve(rrFailure("connectionId is required", bytesSent: nil)); return
         }
+        guard let state = connections[connectionId] else {
+            call.resolve(rrFailure("not connected", bytesSent: nil)); return
+        }
+        runReadOperation(call, state: state, request: nil)
+    }
+
+    /// Error result for writeAndRead / read; `bytesSent` is only reported for writeAndRead.
+    private func rrFailure(_ message: String, bytesSent: Int?) -> [String: Any] {
+        var result: [String: Any] = ["error": true, "errorMessage": message,
+                                     "bytesReceived": 0, "data": [], "matched": false]
+        if let bytesSent = bytesSent { result["bytesSent"] = bytesSent }
+        return result
+    }
+
+    /// Shared RR path: writes `request` first when given, then collects the reply.
+    private func runReadOperation(_ call: CAPPluginCall, state: ConnState, request: [UInt8]?) {
+        let label = request == nil ? "read" : "writeAndRead"
+        let sentOnError: Int? = request == nil ? nil : 0
         let timeout = call.getInt("timeout") ?? 1000
         let maxBytes = call.getInt("maxBytes") ?? 4096
         let suspendRR = call.getBool("suspendStreamDuringRR") ?? true
+        let patterns: [ExpectPattern]
+        let exactBytes: Int?
         let matcher: ((Data) -> Bool)?
         do {
-            matcher = try buildMatcher(call)
+            patterns = try expectPatterns(call)
+            exactBytes = request == nil ? try exactBytesOption(call) : nil
+            // the reader never reads past the cap, so exactBytes leaves later bytes unread
+            let exactMatcher: ((Data) -> Bool)? = exactBytes.map { count in { buf in buf.count >= count } }
+            // expect, lengthField and exactBytes are completion rules; whichever is satisfied first ends the read
+            let rules = try [buildMatcher(patterns), buildLengthFieldMatcher(call), exactMatcher].compactMap { $0 }
+            if rules.count > 1 {
+                matcher = { buf in rules.contains { $0(buf) } }
+            } else {
+                matcher = rules.first
+            }
         } catch {
-            call.resolve(["error": true, "errorMessage": error.localizedDescription,
-                          "bytesSent": 0, "bytesReceived": 0, "data": [], "matched": false]); return
+            call.resolve(rrFailure(error.localizedDescription, bytesSent: sentOnError)); return
         }
 
-        state.client.writeAndRead(bytes, timeout: timeout, maxBytes: maxBytes, expect: matcher, suspendStreamDuringRR: suspendRR) { res in
+        let bytes = request ?? []
+        state.client.writeAndRead(bytes, timeout: timeout, maxBytes: exactBytes ?? maxBytes, expect: matcher,
+                                  suspendStreamDuringRR: suspendRR) { res in
             switch res {
             case .success(let rrResult):
-                call.resolve(["error": false, "errorMessage": NSNull(),
-                              "bytesSent": bytes.count, "bytesReceived": rrResult.data.count,
-                              "data": Array(rrResult.data), "matched": rrResult.matched])
+                // Report which alternative ended the read (the reader only knows that one did)
+                let match = rrResult.matched ? self.findExpectMatch(rrResult.data, patterns) : nil
+                var result: [String: Any] = ["error": false, "errorMessage": NSNull(),
+                                             "bytesReceived": rrResult.data.count,
+                                             "data": Array(rrResult.data), "matched": rrResult.matched,
+                                             "matchedIndex": match?.index ?? -1, "matchOffset": match?.offset ?? -1]
+                if request != nil { result["bytesSent"] = bytes.count }
+                call.resolve(result)
             case .failure(let err):
-                let bytesSent = self.writeAndReadBytesSentOnFailure(err, requestedByteCount: bytes.count)
-                call.resolve(["error": true, "errorMessage": "writeAndRead failed: \(err.localizedDescription)",
-                              "bytesSent": bytesSent, "bytesReceived": 0,
-                              "data": [], "matched": false])
+                let bytesSent = request == nil ? nil : self.writeAndReadBytesSentOnFailure(err, requestedByteCount: bytes.count)
+                call.resolve(self.rrFailure("\(label) failed: \(err.localizedDescription)", bytesSent: bytesSent))
             }
         }
     }
 
+    @objc func listConnections(_ call: CAPPluginCall) {
+        if dispatchToMainIfNeeded({ self.listConnections(call) }) { return }
+        let list: [[String: Any]] = connections.map { id, state in
+            var entry: [String: Any] = [
+                "connectionId": id,
+                "connected": state.client.isConnected(),
+                "reading": state.client.isReading()
+            ]
+            if let host = state.host {
+                entry["host"] = host
+                entry["port"] = state.port
+            }
+            return entry
+        }
+        call.resolve(["error": false, "errorMessage": NSNull(), "connections": list])
+    }
+
     @objc func destroyConnection(_ call: CAPPluginCall) {
         if dispatchToMainIfNeeded({ self.destroyConnection(call) }) { return }
         guard let connectionId = call.getString("connectionId") else { call.resolve(); return }
@@ -300,6 +396,10 @@ public class TCPClientPlugin: CAPPlugin, CAPBridgedPlugin {
         notifyListeners("tcpData", data: ["connectionId": connectionId, "data": payload])
     }
 
+    @objc func upgradeToTls(_ call: CAPPluginCall) {
+        call.resolve(["error": true, "errorMessage": "tls is only supported on Electron", "upgraded": false])
+    }
+
     @objc func getPluginPlatform(_ call: CAPPluginCall) {
         call.resolve(["error": false, "errorMessage": NSNull(), "platform": "ios"])
     }
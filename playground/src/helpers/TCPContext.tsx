@@ -99,7 +99,7 @@ export const TCPProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
   const connRef = useRef<TCPConnection | null>(null);
 
   function getConn(): TCPConnection {
-    const c = TCPClient.createConnection({ connectionId });
+    const c = TCPClient.createConnection({ connectionId, trace: true });
     connRef.current = c;
     return c;
   }
@@ -110,12 +110,16 @@ export const TCPProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
     await conn.addListener("tcpData", (ev) => {
       log.info("listener", `tcpData <- ${ev.data.length} bytes`, ev.data.slice(0, 13));
     });
+    await conn.addListener("tcpTrace", (ev) => {
+      const hex = ev.data.map((b) => b.toString(16).padStart(2, "0")).join(" ");
+      log.info("trace", `${ev.direction.toUpperCase()} ${ev.operation} ${ev.length} bytes${ev.error ? ` (${ev.error})` : ""}`, hex);
+    });
     await conn.addListener("tcpDisconnect", (ev) => {
       log.warn("listener", `tcpDisconnect: ${ev.reason} ${ev.error ?? ""}`);
       setConnected(false);
       setReading(false);
     });
-    log.info("client", "startListening(tcpData, tcpDisconnect)");
+    log.info("client", "startListening(tcpData, tcpTrace, tcpDisconnect)");
     setListenings(true);
   };
 
@@ -127,7 +131,7 @@ export const TCPProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
   };
 
   const doConnect = async () => {
-    const conn = TCPClient.createConnection({ connectionId });
+    const conn = TCPClient.createConnection({ connectionId, trace: true });
     connRef.current = conn;
     const r = await conn.connect({ host, port, timeout: connTimeout, noDelay, keepAlive });
     setConnected(!r.error && !!r.connected);
@@ -181,8 +185,12 @@ export const TCPProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
 
   const doWrite = async () => {
     try {
+      if (writeMode === "text") {
+        const r = await getConn().writeText(txt);
+        log.info("write", `writeText(${txt.length} chars)`, r);
+        return;
+      }
       let data: number[] = [];
-      if (writeMode === "text") data = utf8ToArr(txt);
       if (writeMode === "hex") {
         const b = fromHex(hex); if (!b) throw new Error("Invalid hex"); data = b;
       }
@@ -0,0 +1,25 @@
+const external = ['http', 'net', 'crypto'];
+
+// tsc --project relay/tsconfig.json compiles relay/src/*.ts to ES modules in relay/build/;
+// the CLI bundle inlines the relay so it runs on its own.
+export default [
+  {
+    input: 'relay/build/index.js',
+    output: {
+      file: 'relay/dist/relay.cjs.js',
+      format: 'cjs',
+      sourcemap: true,
+    },
+    external,
+  },
+  {
+    input: 'relay/build/cli.js',
+    output: {
+      file: 'relay/dist/cli.cjs',
+      format: 'cjs',
+      sourcemap: true,
+      banner: '#!/usr/bin/env node',
+    },
+    external,
+  },
+];
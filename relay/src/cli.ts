@@ -0,0 +1,68 @@
+/*
+ * capacitor-tcpclient-relay — command line entry for the WebSocket-to-TCP relay.
+ *
+ *   npx capacitor-tcpclient-relay [--host 127.0.0.1] [--port 8787]
+ *                                 --allow host:port [--allow host:port]... [--origin url]... [--quiet]
+ */
+
+import { createRelay, parseAllowRules } from './index';
+
+const usage =
+  'usage: capacitor-tcpclient-relay [--host 127.0.0.1] [--port 8787] --allow host:port [--allow host:port]... [--origin url]... [--quiet]';
+
+function main(argv: string[]): void {
+  let host = '127.0.0.1';
+  let port = 8787;
+  let quiet = false;
+  const allowRules: string[] = [];
+  const origins: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = argv[i + 1];
+    if (arg === '--host' && value) {
+      host = value;
+      i++;
+    } else if (arg === '--port' && value) {
+      port = Number(value);
+      i++;
+    } else if (arg === '--allow' && value) {
+      allowRules.push(value);
+      i++;
+    } else if (arg === '--origin' && value) {
+      origins.push(value);
+      i++;
+    } else if (arg === '--quiet') {
+      quiet = true;
+    } else {
+      console.error(arg === '--help' ? usage : `unknown argument: ${arg}\n${usage}`);
+      process.exit(arg === '--help' ? 0 : 2);
+    }
+  }
+
+  if (allowRules.length === 0) {
+    console.error(`at least one --allow rule is required ('*:*' allows every target)\n${usage}`);
+    process.exit(2);
+  }
+  const allow = parseAllowRules(allowRules);
+  if (!allow || !Number.isInteger(port) || port < 0 || port > 65535) {
+    console.error(`invalid ${allow ? '--port' : '--allow'} value\n${usage}`);
+    process.exit(2);
+  }
+
+  const relay = createRelay({
+    allow,
+    origins: origins.length ? origins : undefined,
+    log: quiet ? undefined : (message) => console.log(`[relay] ${message}`),
+  });
+  relay.listen(port, host).then(
+    (address) => console.log(`TCP relay listening on ws://${address.address}:${address.port}`),
+    (err: Error) => {
+      console.error(`relay failed to start: ${err.message}`);
+      process.exit(1);
+    },
+  );
+  process.once('SIGINT', () => void relay.close().then(() => process.exit(0)));
+}
+
+main(process.argv.slice(2));
@@ -0,0 +1,320 @@
+/*
+ * WebSocket-to-TCP relay for the web platform (websockify-style).
+ *
+ * Responsibilities:
+ * - Accept WebSocket upgrades on any path; the target comes from the query string:
+ *   ws://relay:8787/?host=192.168.1.100&port=9100[&nodelay=0][&keepalive=1]
+ * - Refuse by default: targets need an `allow` rule, and browsers (which always send `Origin`)
+ *   must come from an allowed origin, by default only the relay's own.
+ * - Open the TCP connection first and complete the handshake only once it is connected, so
+ *   the browser's `open` event means "TCP connected". Failures answer the upgrade with an
+ *   HTTP error status (403 rejected target/origin, 502 connect failed, 504 connect timeout).
+ * - Pipe bytes both ways: binary frames in, binary frames out, with backpressure.
+ * - Close mapping: TCP end -> close 1000; TCP error -> close 1011 with the error message as
+ *   reason; WebSocket close or drop -> TCP end/destroy.
+ *
+ * Kept dependency-free (node:http, node:net, node:crypto) so the package does not pull a
+ * WebSocket server library into apps that never use the relay.
+ */
+
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as net from 'net';
+import type { Duplex } from 'stream';
+
+export interface RelayOptions {
+  /** Return true to accept a target. Default: every target is rejected. */
+  allow?: (host: string, port: number) => boolean;
+  /**
+   * Accepted `Origin` headers, e.g. `http://localhost:5173`. Default: only the relay's own origin
+   * (`http://` or `https://` plus the request's `Host`). Requests without an `Origin` header come
+   * from non-browser clients and are not checked.
+   */
+  origins?: string[];
+  /** TCP connect timeout in ms. Default 10000. */
+  connectTimeout?: number;
+  /** Connection log, e.g. console.log. Default: silent. */
+  log?: (message: string) => void;
+}
+
+export interface Relay {
+  server: http.Server;
+  /** Start listening; resolves with the bound address. */
+  listen(port: number, host?: string): Promise<net.AddressInfo>;
+  /** Stop listening and close every open tunnel. */
+  close(): Promise<void>;
+}
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_FRAME_BYTES = 16 * 1024 * 1024;
+const OP_CONTINUATION = 0x0;
+const OP_TEXT = 0x1;
+const OP_BINARY = 0x2;
+const OP_CLOSE = 0x8;
+const OP_PING = 0x9;
+const OP_PONG = 0xa;
+
+/** Encode one unmasked server frame. */
+export function encodeFrame(opcode: number, payload: Buffer = Buffer.alloc(0)): Buffer {
+  const length = payload.length;
+  let header: Buffer;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeUInt32BE(Math.floor(length / 0x100000000), 2);
+    header.writeUInt32BE(length >>> 0, 6);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+function closeFrame(code: number, reason = ''): Buffer {
+  // control frame payloads are limited to 125 bytes: 2 for the code, 123 for the reason
+  const text = Buffer.from(reason, 'utf8').subarray(0, 123);
+  const payload = Buffer.alloc(2 + text.length);
+  payload.writeUInt16BE(code, 0);
+  text.copy(payload, 2);
+  return encodeFrame(OP_CLOSE, payload);
+}
+
+export interface ClientFrame {
+  opcode: number;
+  payload: Buffer;
+}
+
+/**
+ * Incremental parser for masked client frames.
+ * Returns the frames complete so far, or an error string on a protocol violation.
+ */
+export function createFrameParser(): (chunk: Buffer) => ClientFrame[] | string {
+  let pending: Buffer = Buffer.alloc(0);
+  return (chunk) => {
+    pending = pending.length ? Buffer.concat([pending, chunk]) : chunk;
+    const frames: ClientFrame[] = [];
+    while (pending.length >= 2) {
+      const opcode = pending[0] & 0x0f;
+      if ((pending[1] & 0x80) === 0) return 'unmasked client frame';
+      let length = pending[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (pending.length < 4) break;
+        length = pending.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (pending.length < 10) break;
+        if (pending.readUInt32BE(2) !== 0) return 'frame too large';
+        length = pending.readUInt32BE(6);
+        offset = 10;
+      }
+      if (length > MAX_FRAME_BYTES) return 'frame too large';
+      if (pending.length < offset + 4 + length) break;
+      const mask = pending.subarray(offset, offset + 4);
+      const payload = Buffer.from(pending.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i & 3];
+      frames.push({ opcode, payload });
+      pending = pending.subarray(offset + 4 + length);
+    }
+    return frames;
+  };
+}
+
+/**
+ * Build an `allow` function from `host:port` rules; `*` matches any host or port.
+ * Returns null when a rule is malformed. An empty list allows no target.
+ */
+export function parseAllowRules(rules: string[]): ((host: string, port: number) => boolean) | null {
+  const parsed: { host: string; port: number | null }[] = [];
+  for (const rule of rules) {
+    const split = rule.lastIndexOf(':');
+    if (split <= 0) return null;
+    const host = rule
+      .slice(0, split)
+      .replace(/^\[|\]$/g, '')
+      .toLowerCase();
+    const portText = rule.slice(split + 1);
+    const port = portText === '*' ? null : Number(portText);
+    if (port !== null && !(Number.isInteger(port) && port >= 1 && port <= 65535)) return null;
+    parsed.push({ host, port });
+  }
+  return (host, port) =>
+    parsed.some((r) => (r.host === '*' || r.host === host.toLowerCase()) && (r.port === null || r.port === port));
+}
+
+function originAllowed(req: http.IncomingMessage, origins: string[] | undefined): boolean {
+  const origin = req.headers.origin;
+  if (origin === undefined) return true;
+  if (origins) return origins.includes(origin);
+  const host = String(req.headers.host).toLowerCase();
+  return origin.toLowerCase() === `http://${host}` || origin.toLowerCase() === `https://${host}`;
+}
+
+function refuse(socket: Duplex, status: number, text: string) {
+  socket.end(`HTTP/1.1 ${status} ${text}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+}
+
+export function createRelay(options: RelayOptions = {}): Relay {
+  const allow = options.allow ?? (() => false);
+  const connectTimeout = options.connectTimeout ?? 10_000;
+  const log = options.log ?? (() => undefined);
+  const tunnels = new Set<{ ws: Duplex; tcp: net.Socket }>();
+
+  const server = http.createServer((_req, res) => {
+    res.writeHead(426, { 'Content-Type': 'text/plain', Upgrade: 'websocket' });
+    res.end('WebSocket upgrade required\n');
+  });
+
+  server.on('upgrade', (req: http.IncomingMessage, ws: Duplex, head: Buffer) => {
+    const key = req.headers['sec-websocket-key'];
+    if (
+      req.method !== 'GET' ||
+      String(req.headers.upgrade).toLowerCase() !== 'websocket' ||
+      typeof key !== 'string' ||
+      req.headers['sec-websocket-version'] !== '13'
+    ) {
+      refuse(ws, 400, 'Bad Request');
+      return;
+    }
+    if (!originAllowed(req, options.origins)) {
+      log(`rejected origin ${req.headers.origin}`);
+      refuse(ws, 403, 'Forbidden');
+      return;
+    }
+    const query = new URL(req.url ?? '/', 'http://relay').searchParams;
+    const host = query.get('host') ?? '';
+    const port = Number(query.get('port'));
+    if (!host || !Number.isInteger(port) || port < 1 || port > 65535) {
+      refuse(ws, 400, 'Bad Request');
+      return;
+    }
+    const target = `${host}:${port}`;
+    if (!allow(host, port)) {
+      log(`rejected target ${target}`);
+      refuse(ws, 403, 'Forbidden');
+      return;
+    }
+
+    const tcp = net.connect({ host, port });
+    tcp.setNoDelay(query.get('nodelay') !== '0');
+    if (query.get('keepalive') === '1') tcp.setKeepAlive(true);
+    let connected = false;
+    const timer = setTimeout(() => {
+      log(`connect timeout ${target}`);
+      tcp.destroy();
+      refuse(ws, 504, 'Gateway Timeout');
+    }, connectTimeout);
+    // the browser may give up before the TCP connect settles
+    ws.once('close', () => {
+      if (!connected) {
+        clearTimeout(timer);
+        tcp.destroy();
+      }
+    });
+    tcp.once('error', (err) => {
+      if (connected) return;
+      clearTimeout(timer);
+      log(`connect failed ${target}: ${err.message}`);
+      refuse(ws, 502, 'Bad Gateway');
+    });
+    tcp.once('connect', () => {
+      connected = true;
+      clearTimeout(timer);
+      if (ws.destroyed) {
+        tcp.destroy();
+        return;
+      }
+      const accept = crypto
+        .createHash('sha1')
+        .update(key + WS_GUID)
+        .digest('base64');
+      ws.write(
+        'HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n' +
+          `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+      );
+      log(`open ${target}`);
+      pipe(ws, tcp, head);
+    });
+  });
+
+  const pipe = (ws: Duplex, tcp: net.Socket, head: Buffer) => {
+    const tunnel = { ws, tcp };
+    tunnels.add(tunnel);
+    const parse = createFrameParser();
+    let closing = false;
+
+    const closeWs = (code: number, reason?: string) => {
+      if (closing) return;
+      closing = true;
+      if (!ws.destroyed) ws.end(closeFrame(code, reason));
+    };
+
+    const onWsData = (chunk: Buffer) => {
+      const frames = parse(chunk);
+      if (typeof frames === 'string') {
+        closeWs(frames === 'frame too large' ? 1009 : 1002, frames);
+        tcp.destroy();
+        return;
+      }
+      for (const { opcode, payload } of frames) {
+        if (opcode === OP_BINARY || opcode === OP_TEXT || opcode === OP_CONTINUATION) {
+          if (!tcp.write(payload)) ws.pause();
+        } else if (opcode === OP_PING) {
+          ws.write(encodeFrame(OP_PONG, payload));
+        } else if (opcode === OP_CLOSE) {
+          closeWs(1000);
+          tcp.end();
+        }
+      }
+    };
+
+    ws.on('data', onWsData);
+    tcp.on('drain', () => ws.resume());
+    ws.on('drain', () => tcp.resume());
+    tcp.on('data', (chunk: Buffer) => {
+      if (closing || ws.destroyed) return;
+      if (!ws.write(encodeFrame(OP_BINARY, chunk))) tcp.pause();
+    });
+
+    let tcpError: Error | null = null;
+    tcp.on('error', (err) => {
+      tcpError = err;
+    });
+    tcp.on('close', () => {
+      closeWs(tcpError ? 1011 : 1000, tcpError?.message);
+      tunnels.delete(tunnel);
+    });
+    ws.on('error', () => tcp.destroy());
+    ws.on('close', () => {
+      tcp.destroy();
+      tunnels.delete(tunnel);
+    });
+    if (head.length) onWsData(head);
+  };
+
+  return {
+    server,
+    listen(port, host) {
+      return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, host, () => {
+          server.off('error', reject);
+          resolve(server.address() as net.AddressInfo);
+        });
+      });
+    },
+    close() {
+      for (const { ws, tcp } of tunnels) {
+        tcp.destroy();
+        ws.destroy();
+      }
+      tunnels.clear();
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+}
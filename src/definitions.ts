@@ -19,6 +19,16 @@ import type { PluginListenerHandle } from '@capacitor/core';
  * - Empty `expect` values (`""`, `[]`, or an empty Uint8Array) are treated as if
  *   `expect` was omitted.
  * - Native/Electron implementations cap stream chunks and RR buffers at 16 MiB.
+ * - Optional message framing (setFramer) reassembles tcpData chunks into complete frames in the
+ *   JS layer and emits them as tcpMessage events; it works the same on every platform.
+ * - Optional auto-reconnect (createConnection `reconnect`) runs in the JS layer and emits
+ *   tcpReconnecting/tcpReconnected; a manual disconnect() never triggers it.
+ * - Optional heartbeat (createConnection `heartbeat`) detects dead peers on top of writeAndRead
+ *   and closes the connection with tcpDisconnect reason 'heartbeat'.
+ * - Text helpers (writeText, tcpText, `expectText`) encode and decode in the JS layer, so every
+ *   platform only ever sees bytes.
+ * - Optional tracing (createConnection `trace`) records the bytes of write, writeAndRead, read and
+ *   the stream reader in a bounded buffer that can be exported as a hex dump or pcapng capture.
  * - `errorMessage` is diagnostic text and can vary by platform/OS; do not parse it
  *   as a stable machine-readable error code.
  */
@@ -36,12 +46,128 @@ export interface TcpConnectOptions {
   noDelay?: boolean;
   /** Enable SO_KEEPALIVE. Default true. */
   keepAlive?: boolean;
+  /**
+   * Local IP address to bind before connecting, e.g. the Ethernet address on a kiosk that
+   * also has Wi-Fi; this selects the outgoing interface. Electron only, like `localPort` and
+   * `family`; other platforms fail connect() when any of them is set.
+   */
+  localAddress?: string;
+  /** Local port to bind, 1..65535. Default: any free port. */
+  localPort?: number;
+  /** Address family for resolving `host`: 4, 6 or 'auto' (default). Must match `localAddress`. */
+  family?: 4 | 6 | 'auto';
+  /**
+   * Wrap the connection in TLS; `true` uses the defaults. Electron only; other platforms fail
+   * connect() with 'tls is only supported on Electron'. The timeout covers the handshake too.
+   */
+  tls?: boolean | TcpTlsOptions;
+  /**
+   * Reach `host` through a SOCKS5 or HTTP CONNECT proxy. Electron only; other platforms fail
+   * connect() with 'proxy is only supported on Electron'. The timeout covers the proxy handshake.
+   */
+  proxy?: TcpProxyOptions;
+  /**
+   * Electron: let windows other than the one that connected use this connection. By default
+   * other windows are refused with 'connection belongs to another window'. Only the owning
+   * window can change it; the connection still closes with its owner. Ignored elsewhere.
+   */
+  shared?: boolean;
+}
+
+/** Outbound proxy for connect(). `host` and `port` of the connect options name the target. */
+export interface TcpProxyOptions {
+  /** `socks5` (RFC 1928, with optional username/password auth) or `http-connect`. */
+  type: 'socks5' | 'http-connect';
+  /** Proxy host name or IP address. */
+  host: string;
+  /** Proxy port, 1..65535. */
+  port: number;
+  /** Username for SOCKS5 username/password auth or HTTP `Proxy-Authorization: Basic`. */
+  username?: string;
+  /** Password; requires `username`. */
+  password?: string;
+}
+
+/** TLS settings for connect(). PEM values are strings with `-----BEGIN ...` headers. */
+export interface TcpTlsOptions {
+  /** Server name for SNI and certificate checks. Default: `host`, unless it is an IP address. */
+  servername?: string;
+  /** Trusted CA certificates in PEM, replacing the default trust store. */
+  ca?: string | string[];
+  /** Client certificate chain in PEM, for servers that require client authentication. */
+  cert?: string;
+  /** Private key in PEM for `cert`. */
+  key?: string;
+  /** Passphrase for an encrypted `key`. */
+  passphrase?: string;
+  /** Verify the server certificate and host name. Default true. */
+  rejectUnauthorized?: boolean;
+  /** ALPN protocols to offer, most preferred first. */
+  alpnProtocols?: string[];
+  /**
+   * SHA-256 fingerprints of accepted server certificates, as hex with or without colons
+   * (`TcpPeerCertificate.fingerprintSha256` format works). The pin replaces CA and host name
+   * verification, so self-signed device certificates need no `ca`; set `rejectUnauthorized: true`
+   * to require both.
+   */
+  pinnedSha256?: string | string[];
+}
+
+/** Options for upgradeToTls(). */
+export interface TcpUpgradeTlsOptions extends TcpTlsOptions, TcpQueueOptions {
+  /** Handshake timeout in milliseconds, default 3000. */
+  timeout?: number;
+}
+
+export interface TcpUpgradeTlsResult {
+  error: boolean;
+  errorMessage?: string | null;
+  /** True once the connection runs over TLS. */
+  upgraded: boolean;
+  /** Negotiated TLS version, e.g. 'TLSv1.3'. */
+  tlsProtocol?: string;
+  /** ALPN protocol the server selected, if any. */
+  alpnProtocol?: string;
+  /** Server certificate. */
+  certificate?: TcpPeerCertificate;
+}
+
+/** Server certificate of a TLS connection. */
+export interface TcpPeerCertificate {
+  /** Subject distinguished name, e.g. 'CN=printer-01, O=Acme'. */
+  subject: string;
+  /** Issuer distinguished name; equals `subject` for self-signed certificates. */
+  issuer: string;
+  /** Start of validity, ISO 8601. */
+  validFrom: string;
+  /** End of validity, ISO 8601. */
+  validTo: string;
+  /** Serial number in hex. */
+  serialNumber: string;
+  /** SHA-256 fingerprint of the certificate, uppercase hex bytes separated by colons. */
+  fingerprintSha256: string;
 }
 
 export interface TcpConnectResult {
   error: boolean;
   errorMessage?: string | null;
   connected: boolean;
+  /** Local IP address of the connected socket. Electron only. */
+  localAddress?: string;
+  /** Local port of the connected socket. Electron only. */
+  localPort?: number;
+  /** IP address the socket connected to, after DNS resolution. Electron only. */
+  remoteAddress?: string;
+  /** Remote port of the connected socket. Electron only. */
+  remotePort?: number;
+  /** Address family the connection uses, 4 or 6. Electron only. */
+  family?: 4 | 6;
+  /** Negotiated TLS version, e.g. 'TLSv1.3', when `tls` is set. Electron only. */
+  tlsProtocol?: string;
+  /** ALPN protocol the server selected, when `tls.alpnProtocols` is set and one was agreed. Electron only. */
+  alpnProtocol?: string;
+  /** Server certificate, when `tls` is set. Electron only. */
+  certificate?: TcpPeerCertificate;
 }
 
 /* ====== Disconnect / Status ====== */
@@ -65,6 +191,45 @@ export interface TcpIsReadingResult {
   reading: boolean;
 }
 
+/**
+ * Diagnostics snapshot from getConnectionInfo(). Android and iOS report `connected` and
+ * `reading` only; socket details and counters come from Electron and web.
+ */
+export interface TcpConnectionInfoResult {
+  error: boolean;
+  errorMessage?: string | null;
+  connected: boolean;
+  reading: boolean;
+  /** Host given to connect(). Electron and web only. */
+  host?: string;
+  /** Port given to connect(). Electron and web only. */
+  port?: number;
+  /** IP address the socket is connected to, after DNS resolution (the proxy with `proxy`). Electron only. */
+  remoteAddress?: string;
+  /** Remote port of the socket. Electron only. */
+  remotePort?: number;
+  /** Local IP address of the socket. Electron only. */
+  localAddress?: string;
+  /** Local port of the socket. Electron only. */
+  localPort?: number;
+  /** Address family of the connection, 4 or 6. Electron only. */
+  family?: 4 | 6;
+  /** When the current connection was established, in milliseconds since the epoch. Electron and web only. */
+  connectedAt?: number;
+  /** Bytes received on the current connection. Electron and web only. */
+  bytesRead?: number;
+  /** Bytes sent on the current connection. Electron and web only. */
+  bytesWritten?: number;
+  /** Bytes written but not yet handed to the operating system. Electron and web only. */
+  writeBufferSize?: number;
+  /** connect() is running. Electron and web only. */
+  connectInFlight?: boolean;
+  /** writeAndRead() or read() is collecting a reply. Electron and web only. */
+  rrInFlight?: boolean;
+  /** A write, reply collection or TLS upgrade is using the socket. Electron and web only. */
+  ioInFlight?: boolean;
+}
+
 /* ====== Stream (reader) ====== */
 
 export interface TcpStartReadOptions {
@@ -82,6 +247,10 @@ export interface TcpStartReadOptions {
    *   itself remains event-driven.
    */
   readTimeout?: number;
+  /** Representation of tcpData `data` for this reader. Default 'array'. */
+  dataEncoding?: TcpDataEncoding;
+  /** Character encoding used to decode tcpText events. Default 'utf-8'. */
+  textEncoding?: TcpTextEncoding;
 }
 
 export interface TcpStartStopResult {
@@ -90,6 +259,32 @@ export interface TcpStartStopResult {
   reading: boolean;
 }
 
+/**
+ * WHATWG stream pair returned by TCPConnection.toStreams().
+ * Cancelling `readable` stops the stream reader; closing or aborting `writable` disconnects.
+ */
+export interface TcpStreamPair {
+  readable: ReadableStream<Uint8Array>;
+  writable: WritableStream<Uint8Array>;
+}
+
+/* ====== Operation queue ====== */
+
+/**
+ * Per-call queue settings for write(), writeAndRead() and read().
+ * Ignored when the connection was created with `queue: false`.
+ */
+export interface TcpQueueOptions {
+  /** Higher values run first; equal priorities run in call order. Default 0. */
+  priority?: number;
+  /**
+   * Maximum time in ms to wait in the queue before the operation starts.
+   * When it expires the operation is dropped and resolves with errorMessage 'queue timeout'.
+   * Default: wait indefinitely.
+   */
+  queueTimeout?: number;
+}
+
 /* ====== Write (raw) ====== */
 
 /**
@@ -104,8 +299,25 @@ export interface TcpByteArrayLike {
 /** Byte payload accepted by write APIs. Values must be integer bytes in the 0..255 range. */
 export type TcpBytePayload = number[] | TcpByteArrayLike;
 
-export interface TcpWriteOptions {
-  data: TcpBytePayload;
+/**
+ * How byte data is represented:
+ * - 'array': number[] (default)
+ * - 'base64': base64 string
+ * - 'uint8array': Uint8Array
+ *
+ * Electron also uses the chosen form across IPC, which avoids the cost of number[] for large
+ * transfers; on Android/iOS the JS wrapper converts.
+ */
+export type TcpDataEncoding = 'array' | 'base64' | 'uint8array';
+
+/** Received bytes in one of the TcpDataEncoding forms. */
+export type TcpData = number[] | string | Uint8Array;
+
+export interface TcpWriteOptions extends TcpQueueOptions {
+  /** Bytes to send; a base64 string when `dataEncoding` is 'base64'. */
+  data: TcpBytePayload | string;
+  /** Set to 'base64' to pass `data` as a base64 string. Default 'array'. */
+  dataEncoding?: TcpDataEncoding;
 }
 
 export interface TcpWriteResult {
@@ -114,52 +326,371 @@ export interface TcpWriteResult {
   bytesSent: number;
 }
 
+/* ====== Text ====== */
+
+/** Character encodings supported by the text helpers. */
+export type TcpTextEncoding = 'utf-8' | 'windows-1250';
+
+/** Line ending appended by writeText(): nothing, `\n`, `\r\n` or `\r`. */
+export type TcpLineEnding = 'none' | 'lf' | 'crlf' | 'cr';
+
+export interface TcpWriteTextOptions extends TcpQueueOptions {
+  /** Character encoding. Default 'utf-8'. */
+  encoding?: TcpTextEncoding;
+  /** Line ending appended after the text. Default 'none'. */
+  lineEnding?: TcpLineEnding;
+}
+
 /* ====== Write & Read (RR) ====== */
 
-export interface TcpWriteAndReadOptions {
-  data: TcpBytePayload;
+/**
+ * Byte pattern where only the bits set in `mask` must match, e.g.
+ * `{ bytes: [0x08], mask: [0x08] }` matches any byte with bit 3 set.
+ * `bytes` and `mask` must have the same length.
+ */
+export interface TcpMaskedPattern {
+  bytes: TcpBytePayload | string;
+  mask: TcpBytePayload | string;
+}
+
+/**
+ * One expect pattern: bytes, a hex string or a masked pattern.
+ * Hex strings accept `??` as a wildcard byte (e.g. "1B ?? 40").
+ */
+export type TcpExpectPattern = TcpBytePayload | string | TcpMaskedPattern;
+
+export interface TcpWriteAndReadOptions extends TcpQueueOptions {
+  /** Request bytes; a base64 string when `dataEncoding` is 'base64'. */
+  data: TcpBytePayload | string;
   /** RR timeout in ms. Default 1000. Values <= 0 fall back to the default. */
   timeout?: number;
   /** Maximum bytes to accumulate. Default 4096, capped at 16 MiB. */
   maxBytes?: number;
   /**
    * Optional pattern — reading stops when found.
-   * Accepts number[] / Uint8Array or hex string (e.g. "1B40", "0x1b 0x40").
-   * Empty values are treated as no expect pattern.
+   * Accepts number[] / Uint8Array, hex string (e.g. "1B40", "0x1b 0x40", "1B ?? 40" with a wildcard byte)
+   * or a masked pattern (`{ bytes, mask }`).
+   * Pass an array of patterns (e.g. `["06", "15"]`) to stop on whichever alternative appears
+   * first; a plain number[] is always a single pattern.
+   * Empty values are treated as no expect pattern; an empty alternative is invalid.
+   */
+  expect?: TcpExpectPattern | TcpExpectPattern[];
+  /**
+   * Optional length field announced in the reply header — reading stops with `matched: true`
+   * as soon as the announced frame is complete. While set, the adaptive idle window is not used.
+   * Combined with `expect`, whichever completes first ends the read.
    */
-  expect?: TcpBytePayload | string;
+  lengthField?: TcpLengthFieldOptions;
+  /**
+   * Optional text pattern, encoded with `textEncoding` and used like `expect`
+   * (e.g. `"OK\r\n"`, or `["OK", "ERROR"]` for alternatives). Cannot be combined with `expect`.
+   */
+  expectText?: string | string[];
+  /** Character encoding of `expectText`. Default 'utf-8'. */
+  textEncoding?: TcpTextEncoding;
   /** Suspend stream reader during RR to avoid consuming reply. Default true. */
   suspendStreamDuringRR?: boolean;
+  /** Representation of the request `data` and the reply `data`. Default 'array'. */
+  dataEncoding?: TcpDataEncoding;
 }
 
-export interface TcpWriteAndReadResult {
+export interface TcpWriteAndReadResult<D extends TcpData = number[]> {
   error: boolean;
   errorMessage?: string | null;
   bytesSent: number;
   bytesReceived: number;
-  data: number[];
+  data: D;
   matched: boolean;
+  /** Index of the expect pattern that ended the read, or -1 when no pattern matched. */
+  matchedIndex: number;
+  /** Offset in `data` where the matching pattern starts, or -1 when no pattern matched. */
+  matchOffset: number;
+  /** Milliseconds from the start of the request to the first reply byte. Electron and web only. */
+  firstByteMs?: number;
+}
+
+/* ====== Read (pull) ====== */
+
+export interface TcpReadOptions extends TcpQueueOptions {
+  /** Read timeout in ms. Default 1000. Values <= 0 fall back to the default. */
+  timeout?: number;
+  /** Maximum bytes to accumulate. Default 4096, capped at 16 MiB. Ignored when `exactBytes` is set. */
+  maxBytes?: number;
+  /**
+   * Complete with `matched: true` once exactly this many bytes arrived.
+   * Bytes after them stay unread for the next read.
+   */
+  exactBytes?: number;
+  /** Optional pattern — same forms and rules as `writeAndRead` `expect`. */
+  expect?: TcpExpectPattern | TcpExpectPattern[];
+  /** Optional text pattern — same rules as `writeAndRead` `expectText`. */
+  expectText?: string | string[];
+  /** Character encoding of `expectText`. Default 'utf-8'. */
+  textEncoding?: TcpTextEncoding;
+  /** Optional length field — same rules as `writeAndRead` `lengthField`. */
+  lengthField?: TcpLengthFieldOptions;
+  /** Suspend stream reader during the read so it does not consume the bytes. Default true. */
+  suspendStreamDuringRR?: boolean;
+  /** Representation of the result `data`. Default 'array'. */
+  dataEncoding?: TcpDataEncoding;
+}
+
+export interface TcpReadResult<D extends TcpData = number[]> {
+  error: boolean;
+  errorMessage?: string | null;
+  bytesReceived: number;
+  data: D;
+  matched: boolean;
+  /** Index of the expect pattern that ended the read, or -1 when no pattern matched. */
+  matchedIndex: number;
+  /** Offset in `data` where the matching pattern starts, or -1 when no pattern matched. */
+  matchOffset: number;
+}
+
+/* ====== Message framing ====== */
+
+/**
+ * Describes a length field in a binary header (length-prefixed framer and RR `lengthField`).
+ * The frame size is `offset + size + value + adjustment`, or `value + adjustment`
+ * when `includesHeader` is true.
+ */
+export interface TcpLengthFieldOptions {
+  /** Byte offset of the length field from the start of the frame. Default 0. */
+  offset?: number;
+  /** Length field size in bytes. Default 2. */
+  size?: 1 | 2 | 4;
+  /** Byte order of the length field. Default 'big'. */
+  endian?: 'big' | 'little';
+  /** Value added to the decoded length; may be negative. Default 0. */
+  adjustment?: number;
+  /** Whether the decoded length already counts the header bytes (offset + size). Default false. */
+  includesHeader?: boolean;
+}
+
+export interface TcpFramerBase {
+  /**
+   * Largest frame that will be buffered, default and maximum 16 MiB.
+   * A partial frame that grows beyond this limit is discarded.
+   */
+  maxFrameBytes?: number;
+}
+
+/** Split the stream on a byte sequence, e.g. "0d0a" for CRLF-terminated lines. */
+export interface TcpDelimiterFramerOptions extends TcpFramerBase {
+  type: 'delimiter';
+  /** Delimiter as number[] / Uint8Array or hex string. Must not be empty or contain `??` wildcards. */
+  delimiter: TcpBytePayload | string;
+  /** Keep the delimiter at the end of each emitted frame. Default false. */
+  includeDelimiter?: boolean;
+}
+
+/** Emit every `length` bytes as one frame. */
+export interface TcpFixedLengthFramerOptions extends TcpFramerBase {
+  type: 'fixed';
+  length: number;
+}
+
+/**
+ * Frames announced by a length field in their header.
+ * Emitted frames include the header. An impossible announced length discards the buffered bytes.
+ */
+export interface TcpLengthFramerOptions extends TcpFramerBase, TcpLengthFieldOptions {
+  type: 'length';
 }
 
+export type TcpFramerOptions = TcpDelimiterFramerOptions | TcpFixedLengthFramerOptions | TcpLengthFramerOptions;
+
 /* ====== Events ====== */
 
-/** Emitted by the stream reader. connectionId identifies which connection sent the data. */
-export interface TcpDataEvent {
+/**
+ * Emitted by the stream reader. connectionId identifies which connection sent the data.
+ * `data` uses the `dataEncoding` passed to startRead(); type the listener parameter
+ * (e.g. `TcpDataEvent<Uint8Array>`) to match.
+ */
+export interface TcpDataEvent<D extends TcpData = number[]> {
+  connectionId: string;
+  data: D;
+}
+
+/**
+ * Emitted once per complete frame when a framer is configured with setFramer().
+ * Frames are reassembled from tcpData in the JS layer, so the stream reader must be running.
+ */
+export interface TcpMessageEvent {
   connectionId: string;
   data: number[];
 }
 
-/** Emitted when a connection closes. */
+/**
+ * Stream data decoded as text with the `textEncoding` passed to startRead(). Synthesized in the
+ * JS layer from tcpData; a character split across chunks is emitted once all its bytes arrived.
+ */
+export interface TcpTextEvent {
+  connectionId: string;
+  text: string;
+}
+
+/**
+ * Emitted when a connection closes.
+ * `reason: 'heartbeat'` means the heartbeat (see createConnection()) missed too many replies
+ * and closed the connection.
+ */
 export interface TcpDisconnectEvent {
   connectionId: string;
   disconnected: true;
   reading: boolean;
-  reason: 'manual' | 'remote' | 'error';
+  reason: 'manual' | 'remote' | 'error' | 'heartbeat';
+  error?: string;
+}
+
+/**
+ * Emitted before each automatic reconnect attempt (see `reconnect` in createConnection()).
+ * Synthesized in the JS layer.
+ */
+export interface TcpReconnectingEvent {
+  connectionId: string;
+  /** 1-based attempt number. */
+  attempt: number;
+  /** Backoff delay in ms before this attempt is made. */
+  delay: number;
+  /** Reason of the disconnect that started reconnecting. */
+  reason: 'remote' | 'error' | 'heartbeat';
+  /** Failure of the previous attempt, if any. */
+  error?: string;
+}
+
+/** Emitted when an automatic reconnect succeeded. Synthesized in the JS layer. */
+export interface TcpReconnectedEvent {
+  connectionId: string;
+  /** Number of attempts it took. */
+  attempts: number;
+  /** Whether the stream reader was restarted. */
+  reading: boolean;
+}
+
+/**
+ * One traced transfer, also delivered as the tcpTrace event.
+ * `length` is the full byte count; `data` holds at most `maxBytesPerEntry` of those bytes.
+ */
+export interface TcpTraceEntry {
+  connectionId: string;
+  /** Milliseconds since the epoch; for requests, the time the call started. */
+  timestamp: number;
+  /** 'tx' for bytes sent, 'rx' for bytes received. */
+  direction: 'tx' | 'rx';
+  /** 'rr' covers writeAndRead() and heartbeats, 'stream' the stream reader. */
+  operation: 'write' | 'rr' | 'read' | 'stream';
+  length: number;
+  data: number[];
+  /** Set when the operation failed, e.g. an RR timeout on the 'rx' entry. */
   error?: string;
 }
 
+/* ====== Statistics ====== */
+
+/** Latency percentiles in ms over the most recent samples. */
+export interface TcpLatencyStats {
+  /** Samples the percentiles are computed from (at most the last 1000 per connection). */
+  count: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+/**
+ * Counters collected by the connection wrapper on every platform. Heartbeats are not counted.
+ * `firstByteLatency` needs timing from the platform and is Electron and web only.
+ */
+export interface TcpStats {
+  /** When collection started, in ms since epoch (createConnection()). */
+  since: number;
+  /** Successful write() and writeText() calls. */
+  writes: number;
+  /** Bytes sent by write() and writeText(). */
+  writeBytes: number;
+  /** writeAndRead() calls that reached the socket; queue timeouts and invalid options are not counted. */
+  requests: number;
+  /** writeAndRead() calls that failed because no reply arrived in time. */
+  requestTimeouts: number;
+  /** writeAndRead() calls that failed for any other reason. */
+  requestErrors: number;
+  /** Replies that matched `expect` or completed `lengthField`. */
+  matched: number;
+  /** Replies with `expect` or `lengthField` set that ended without a match (timeout with partial data). */
+  unmatched: number;
+  /** Time from the start of writeAndRead() to the end of the reply, for successful calls; null before the first one. */
+  latency: TcpLatencyStats | null;
+  /** Time to the first reply byte. Electron and web only; always null on Android and iOS. */
+  firstByteLatency: TcpLatencyStats | null;
+  /** Bytes delivered to the stream reader. */
+  streamBytes: number;
+  /** Stream throughput averaged over the last 10 seconds. */
+  streamBytesPerSecond: number;
+  /** Automatic reconnect attempts. */
+  reconnectAttempts: number;
+  /** Successful automatic reconnects. */
+  reconnects: number;
+}
+
+/** Statistics of one connection. */
+export interface TcpConnectionStats extends TcpStats {
+  connectionId: string;
+}
+
+/** Statistics of every connection in the registry and their sum. */
+export interface TcpClientStats {
+  connections: TcpConnectionStats[];
+  /** Counters summed and percentiles computed over the samples of all connections. */
+  total: TcpStats;
+}
+
 /* ====== Multi-instance ====== */
 
+/** Traffic tracing for one connection. */
+export interface TcpTraceOptions {
+  /** Entries kept before the oldest is dropped. Default 1000. */
+  maxEntries?: number;
+  /** Bytes stored per entry; longer transfers are truncated. Default 4096. */
+  maxBytesPerEntry?: number;
+}
+
+/**
+ * Application-level heartbeat sent with writeAndRead() while the connection is idle.
+ * A heartbeat counts as missed when it fails or, with `expect`, the reply does not match.
+ */
+export interface TcpHeartbeatOptions {
+  /** Heartbeat request bytes. Required, non-empty. */
+  data: TcpBytePayload;
+  /** Optional reply pattern — same forms as writeAndRead `expect`. Without it any reply counts. */
+  expect?: TcpExpectPattern | TcpExpectPattern[];
+  /** Idle time in ms before a heartbeat is sent. Default 5000, minimum 100. */
+  interval?: number;
+  /** Reply timeout in ms. Default 1000 (at most `interval`). */
+  timeout?: number;
+  /** Consecutive misses that close the connection with tcpDisconnect reason 'heartbeat'. Default 3. */
+  maxMisses?: number;
+}
+
+/**
+ * Automatic reconnect after a `remote`, `error` or `heartbeat` disconnect.
+ * A manual disconnect() never reconnects.
+ */
+export interface TcpReconnectOptions {
+  /** Attempts before giving up; 0 means unlimited. Default 5. */
+  maxAttempts?: number;
+  /** Delay before the first attempt in ms. Default 500. */
+  initialDelay?: number;
+  /** Upper bound for the backoff delay in ms. Default 30000. */
+  maxDelay?: number;
+  /** Backoff multiplier per attempt, >= 1. Default 2. */
+  factor?: number;
+  /** Random spread applied to each delay as a fraction (0..1). Default 0.2 (±20%). */
+  jitter?: number;
+  /** Restart the stream reader with its previous options if it was running. Default true. */
+  restoreRead?: boolean;
+}
+
 /**
  * Options for TCPClient.createConnection().
  * All fields are optional. host/port and other connect options set here become
@@ -172,6 +703,28 @@ export interface TcpCreateConnectionOptions extends Partial<TcpConnectOptions> {
    * Omit to get a new instance with a generated UUID each time.
    */
   connectionId?: string;
+  /**
+   * Queue write(), writeAndRead() and read() per connection so concurrent calls wait
+   * their turn instead of failing with 'busy'. Default true.
+   * Set false to keep the fail-fast 'busy' behaviour.
+   */
+  queue?: boolean;
+  /**
+   * Reconnect automatically after a `remote`, `error` or `heartbeat` disconnect, using the options of the
+   * last successful connect(). `true` uses the defaults. Default off.
+   */
+  reconnect?: boolean | TcpReconnectOptions;
+  /**
+   * Detect dead peers with a periodic request/response. Heartbeats only run while no other
+   * operation is queued or running, and replies to your own writeAndRead()/read() calls
+   * postpone them. connect() fails with 'invalid heartbeat' when the options are invalid.
+   */
+  heartbeat?: TcpHeartbeatOptions;
+  /**
+   * Record every transfer of this connection (see getTrace()/exportTrace() and the tcpTrace event).
+   * `true` uses the defaults. Default off.
+   */
+  trace?: boolean | TcpTraceOptions;
 }
 
 /**
@@ -181,24 +734,77 @@ export interface TcpCreateConnectionOptions extends Partial<TcpConnectOptions> {
 export interface TCPConnection {
   readonly connectionId: string;
 
+  /** Number of queued write/writeAndRead/read operations still waiting to start. */
+  readonly queueLength: number;
+
   /**
    * Open the socket. Options are merged with the defaults supplied in createConnection().
    * host must be present either in createConnection() or here.
    */
   connect(options?: Partial<TcpConnectOptions>): Promise<TcpConnectResult>;
 
-  /** Close the socket. Idempotent. Resolves after native teardown completes. Emits tcpDisconnect(reason: manual). */
+  /**
+   * Switch the open plaintext connection to TLS in place (STARTTLS style), after the protocol
+   * has negotiated it. Queued like writes; an active stream keeps running over TLS.
+   * A failed handshake closes the connection (tcpDisconnect reason 'error').
+   * Electron only; other platforms fail with 'tls is only supported on Electron'.
+   */
+  upgradeToTls(options?: TcpUpgradeTlsOptions): Promise<TcpUpgradeTlsResult>;
+
+  /**
+   * Close the socket. Idempotent. Resolves after native teardown completes. Emits tcpDisconnect(reason: manual).
+   * Also cancels a pending automatic reconnect.
+   */
   disconnect(): Promise<TcpDisconnectResult>;
 
   isConnected(): Promise<TcpIsConnectedResult>;
   isReading(): Promise<TcpIsReadingResult>;
+  /**
+   * Addresses, counters, timestamps and in-flight flags for diagnostics screens. Not queued, so
+   * it answers while other operations run. Counters and addresses are present while connected.
+   */
+  getConnectionInfo(): Promise<TcpConnectionInfoResult>;
 
   write(options: TcpWriteOptions): Promise<TcpWriteResult>;
+
+  /**
+   * Encode `text` and write it, optionally followed by a line ending.
+   * Fails with an error result when a character cannot be represented in the encoding.
+   */
+  writeText(text: string, options?: TcpWriteTextOptions): Promise<TcpWriteResult>;
+
+  /** Send bytes and collect the reply. `dataEncoding` selects the form of `data` in both directions. */
+  writeAndRead(options: TcpWriteAndReadOptions & { dataEncoding: 'base64' }): Promise<TcpWriteAndReadResult<string>>;
+  writeAndRead(
+    options: TcpWriteAndReadOptions & { dataEncoding: 'uint8array' },
+  ): Promise<TcpWriteAndReadResult<Uint8Array>>;
   writeAndRead(options: TcpWriteAndReadOptions): Promise<TcpWriteAndReadResult>;
 
+  /**
+   * Read without writing first, e.g. the reply to an earlier write() or an unsolicited message.
+   * Uses the writeAndRead completion rules (expect, lengthField, idle window, timeout) and shares
+   * the operation queue with write() and writeAndRead().
+   */
+  read(options: TcpReadOptions & { dataEncoding: 'base64' }): Promise<TcpReadResult<string>>;
+  read(options: TcpReadOptions & { dataEncoding: 'uint8array' }): Promise<TcpReadResult<Uint8Array>>;
+  read(options?: TcpReadOptions): Promise<TcpReadResult>;
+
   startRead(options?: TcpStartReadOptions): Promise<TcpStartStopResult>;
   stopRead(): Promise<TcpStartStopResult>;
 
+  /**
+   * Start the stream reader and iterate its chunks with `for await`.
+   * Leaving the loop stops the stream reader. The iterator ends on disconnect and throws
+   * when tcpDisconnect reports reason 'error' or startRead() fails.
+   */
+  readable(options?: TcpStartReadOptions): AsyncIterableIterator<Uint8Array>;
+
+  /**
+   * Wrap the connection as a WHATWG ReadableStream/WritableStream pair, e.g. to pipe through
+   * TextDecoderStream. Same reader rules as readable(); writes go through write().
+   */
+  toStreams(options?: TcpStartReadOptions): TcpStreamPair;
+
   /**
    * Configure stream read timeout.
    * - Android: sets `SO_TIMEOUT` on the continuous reader socket (applies during `startRead`).
@@ -208,8 +814,36 @@ export interface TCPConnection {
    */
   setReadTimeout(options: { readTimeout: number }): Promise<{ error: boolean; errorMessage?: string | null }>;
 
-  /** Subscribe to stream data. Only events for this connectionId are delivered. */
-  addListener(eventName: 'tcpData', listenerFunc: (event: TcpDataEvent) => void): Promise<PluginListenerHandle>;
+  /**
+   * Configure how stream data is split into tcpMessage events, or pass null to turn framing off.
+   * Replacing the framer, or a disconnect, discards any partially buffered frame.
+   * Returns an error result for invalid options and keeps the previous framer in that case.
+   */
+  setFramer(framer: TcpFramerOptions | null): { error: boolean; errorMessage?: string | null };
+
+  /**
+   * Subscribe to stream data. Only events for this connectionId are delivered.
+   * `data` follows the `dataEncoding` passed to startRead().
+   */
+  addListener<D extends TcpData = number[]>(
+    eventName: 'tcpData',
+    listenerFunc: (event: TcpDataEvent<D>) => void,
+  ): Promise<PluginListenerHandle>;
+
+  /**
+   * Subscribe to complete frames produced by the framer set with setFramer().
+   * Only events for this connectionId are delivered.
+   */
+  addListener(eventName: 'tcpMessage', listenerFunc: (event: TcpMessageEvent) => void): Promise<PluginListenerHandle>;
+
+  /**
+   * Subscribe to stream data decoded as text (see `textEncoding` in startRead()).
+   * The stream reader must be running. A partial character is dropped on disconnect.
+   */
+  addListener(eventName: 'tcpText', listenerFunc: (event: TcpTextEvent) => void): Promise<PluginListenerHandle>;
+
+  /** Subscribe to traced transfers as they are recorded (requires `trace` in createConnection()). */
+  addListener(eventName: 'tcpTrace', listenerFunc: (event: TcpTraceEntry) => void): Promise<PluginListenerHandle>;
 
   /** Subscribe to disconnect notifications for this connection. */
   addListener(
@@ -217,6 +851,40 @@ export interface TCPConnection {
     listenerFunc: (event: TcpDisconnectEvent) => void,
   ): Promise<PluginListenerHandle>;
 
+  /** Subscribe to automatic reconnect attempts (see `reconnect` in createConnection()). */
+  addListener(
+    eventName: 'tcpReconnecting',
+    listenerFunc: (event: TcpReconnectingEvent) => void,
+  ): Promise<PluginListenerHandle>;
+
+  /** Subscribe to successful automatic reconnects. */
+  addListener(
+    eventName: 'tcpReconnected',
+    listenerFunc: (event: TcpReconnectedEvent) => void,
+  ): Promise<PluginListenerHandle>;
+
+  /** Traced transfers, oldest first. Empty unless `trace` was set in createConnection(). */
+  getTrace(): TcpTraceEntry[];
+
+  /** Traced transfers as a hex dump with one header line per entry, oldest first. */
+  exportTrace(): string;
+
+  /** Drop all traced transfers. */
+  clearTrace(): void;
+
+  /**
+   * Traced transfers as a pcapng capture for Wireshark, rebuilt as one TCP stream with synthetic
+   * Ethernet/IP/TCP headers. Uses the socket addresses reported by Electron; elsewhere the
+   * local end is a placeholder (192.0.2.1) and the remote end comes from the connect options.
+   */
+  exportPcapng(): Uint8Array;
+
+  /**
+   * Write, request, stream and reconnect statistics of this instance since createConnection().
+   * Collected in JavaScript on every platform.
+   */
+  getStats(): TcpConnectionStats;
+
   /** Remove all listeners registered through this instance. */
   removeAllListeners(): Promise<void>;
 
@@ -224,6 +892,107 @@ export interface TCPConnection {
   destroy(): Promise<void>;
 }
 
+/** One entry of TCPClient.listConnections(). */
+export interface TcpConnectionSummary {
+  connectionId: string;
+  /** Target of the last connect(), or the createConnection() default when it never connected. */
+  host?: string;
+  port?: number;
+  connected: boolean;
+  reading: boolean;
+  /** A TCPConnection instance for this id exists in this JavaScript context. */
+  registered: boolean;
+  /** The native layer holds state for this id, possibly left over from before a page reload. */
+  native: boolean;
+}
+
+export interface TcpListConnectionsResult {
+  error: boolean;
+  errorMessage?: string | null;
+  connections: TcpConnectionSummary[];
+}
+
+export interface TcpDestroyAllResult {
+  error: boolean;
+  errorMessage?: string | null;
+  /** Ids of the destroyed connections, registered and native-only alike. */
+  destroyed: string[];
+}
+
+/* ====== Web fake device ====== */
+
+/** Reply rule of a fake device. The first rule that matches a write answers it. */
+export interface TcpFakeResponder {
+  /**
+   * Pattern searched in each write — same forms as writeAndRead `expect`.
+   * Omit to answer every write.
+   */
+  match?: TcpExpectPattern | TcpExpectPattern[];
+  /**
+   * Reply bytes or hex string, or a function of the written bytes.
+   * A function may return null to stay silent.
+   */
+  reply: TcpBytePayload | string | ((request: number[]) => TcpBytePayload | string | null | undefined);
+  /** Delay before the reply in ms. Default 0. */
+  delay?: number;
+  /** Number of writes this rule answers. Default unlimited. */
+  times?: number;
+  /** Close the connection right after replying, as a remote close or an error. */
+  disconnect?: 'remote' | 'error';
+}
+
+/** Data a fake device sends on its own after connect. */
+export interface TcpFakePush {
+  /** Bytes or hex string. */
+  data: TcpBytePayload | string;
+  /** Delay after connect in ms. Default 0. */
+  after?: number;
+  /** Repeat every this many ms. */
+  every?: number;
+}
+
+/**
+ * In-memory device for the web platform (see TCPClient.registerFakeDevice()).
+ * The newest device registered for a host/port answers connect().
+ */
+export interface TcpFakeDeviceOptions {
+  /** Host this device answers; omit to answer any host. */
+  host?: string;
+  /** Port this device answers; omit to answer any port. */
+  port?: number;
+  responders?: TcpFakeResponder[];
+  pushes?: TcpFakePush[];
+  /** Time connect() takes in ms. Default 0. Longer than the connect timeout fails with 'connect timeout'. */
+  connectDelay?: number;
+  /** Fail connect() with this error message, e.g. 'connect failed: ECONNREFUSED'. */
+  refuseConnect?: string;
+  /** Close every connection this many ms after connect. */
+  disconnectAfter?: number;
+  /** Reason used by `disconnectAfter`. Default 'remote'. */
+  disconnectReason?: 'remote' | 'error';
+}
+
+/** Handle to a registered fake device. */
+export interface TcpFakeDevice {
+  /** Send bytes or a hex string to every open connection of this device. */
+  push(data: TcpBytePayload | string): void;
+  /** Close every open connection of this device. Default reason 'remote'. */
+  disconnect(reason?: 'remote' | 'error', error?: string): void;
+  /** Bytes written to this device, one entry per write, oldest first. */
+  writes(): number[][];
+  /** Unregister the device and close its open connections with reason 'remote'. */
+  remove(): void;
+}
+
+/**
+ * WebSocket relay for the web platform (see TCPClient.setWebRelay()). Each connection opens
+ * `url?host=<host>&port=<port>` and tunnels raw bytes in binary frames, websockify-style.
+ */
+export interface TcpWebRelayOptions {
+  /** Relay endpoint, `ws://` or `wss://`, e.g. 'ws://localhost:8787'. */
+  url: string;
+}
+
 /* ====== Platform ====== */
 
 export type TcpPlatform = 'ios' | 'android' | 'web' | 'electron';
@@ -256,4 +1025,38 @@ export interface TCPClientPlugin {
    * or the browser development stub.
    */
   getPluginPlatform(): Promise<TcpGetPlatformResult>;
+
+  /**
+   * Register an in-memory device that answers connections on the web platform, so UI work can
+   * happen in a browser. Without a registered device, web connections succeed and stay silent.
+   * Other platforms ignore fake devices. Throws on invalid options.
+   */
+  registerFakeDevice(options: TcpFakeDeviceOptions): TcpFakeDevice;
+
+  /**
+   * Route web connections through a WebSocket-to-TCP relay, such as the bundled
+   * `capacitor-tcpclient-relay`, so a browser can reach real devices. Registered fake devices
+   * still answer their host/port. Pass null to turn the relay off. Applies to connect() calls
+   * made afterwards; other platforms ignore it. Throws on an invalid URL.
+   */
+  setWebRelay(options: TcpWebRelayOptions | null): void;
+
+  /**
+   * Statistics of every connection created with createConnection() and not yet destroyed,
+   * plus their total.
+   */
+  getStats(): TcpClientStats;
+
+  /**
+   * Every connection known to this JavaScript context or to the native layer, merged by
+   * connectionId. Native-only entries are typically left over from before a page reload; on
+   * Electron only connections opened by this window (or shared) are listed.
+   */
+  listConnections(): Promise<TcpListConnectionsResult>;
+
+  /**
+   * Destroy every listed connection, e.g. on logout or app shutdown: registered instances through
+   * destroy(), native-only entries through the native layer. Never rejects.
+   */
+  destroyAll(): Promise<TcpDestroyAllResult>;
 }
@@ -15,11 +15,57 @@ import type {
   TcpWriteResult,
   TcpWriteAndReadOptions,
   TcpWriteAndReadResult,
+  TcpReadOptions,
+  TcpReadResult,
   TcpStartReadOptions,
   TcpStartStopResult,
   TcpDataEvent,
+  TcpMessageEvent,
+  TcpTextEvent,
   TcpDisconnectEvent,
+  TcpFramerOptions,
+  TcpStreamPair,
+  TcpQueueOptions,
+  TcpReconnectingEvent,
+  TcpReconnectedEvent,
+  TcpReconnectOptions,
+  TcpHeartbeatOptions,
+  TcpBytePayload,
+  TcpData,
+  TcpDataEncoding,
+  TcpTextEncoding,
+  TcpWriteTextOptions,
+  TcpTraceEntry,
+  TcpTraceOptions,
+  TcpFakeDeviceOptions,
+  TcpFakeDevice,
+  TcpWebRelayOptions,
+  TcpUpgradeTlsOptions,
+  TcpUpgradeTlsResult,
+  TcpConnectionInfoResult,
+  TcpConnectionStats,
+  TcpClientStats,
+  TcpConnectionSummary,
+  TcpListConnectionsResult,
+  TcpDestroyAllResult,
 } from './definitions';
+import { decodeBase64, encodeData, parseDataEncoding, toBytes } from './utils/encoding';
+import { fakeDevices } from './utils/fake-device';
+import { createFramer } from './utils/framer';
+import type { Framer } from './utils/framer';
+import { parseHeartbeatPolicy } from './utils/heartbeat';
+import type { HeartbeatPolicy } from './utils/heartbeat';
+import { createOperationQueue } from './utils/queue';
+import { buildPcapng } from './utils/pcapng';
+import type { PcapEndpoints } from './utils/pcapng';
+import { parseReconnectPolicy, reconnectDelay } from './utils/reconnect';
+import type { ReconnectPolicy } from './utils/reconnect';
+import { createStatsCollector, summarize } from './utils/stats';
+import { createChunkQueue } from './utils/streams';
+import { createTextDecoder, encodeText, lineEndingSuffix, parseTextEncoding } from './utils/text';
+import { createTraceBuffer, formatHexDump, parseTracePolicy } from './utils/trace';
+import type { TraceBuffer } from './utils/trace';
+import { webRelay } from './utils/ws-relay';
 
 // Internal bridge interface — native receives connectionId on every call
 interface _Bridge {
@@ -28,21 +74,39 @@ interface _Bridge {
   disconnect(opts: { connectionId: string }): Promise<TcpDisconnectResult>;
   isConnected(opts: { connectionId: string }): Promise<TcpIsConnectedResult>;
   isReading(opts: { connectionId: string }): Promise<TcpIsReadingResult>;
+  getConnectionInfo(opts: { connectionId: string }): Promise<TcpConnectionInfoResult>;
   write(opts: TcpWriteOptions & { connectionId: string }): Promise<TcpWriteResult>;
-  writeAndRead(opts: TcpWriteAndReadOptions & { connectionId: string }): Promise<TcpWriteAndReadResult>;
+  writeAndRead(opts: TcpWriteAndReadOptions & { connectionId: string }): Promise<TcpWriteAndReadResult<TcpData>>;
+  read(opts: TcpReadOptions & { connectionId: string }): Promise<TcpReadResult<TcpData>>;
   startRead(opts: TcpStartReadOptions & { connectionId: string }): Promise<TcpStartStopResult>;
   stopRead(opts: { connectionId: string }): Promise<TcpStartStopResult>;
   setReadTimeout(opts: {
     readTimeout: number;
     connectionId: string;
   }): Promise<{ error: boolean; errorMessage?: string | null }>;
+  upgradeToTls(
+    opts: Omit<TcpUpgradeTlsOptions, keyof TcpQueueOptions> & { connectionId: string },
+  ): Promise<TcpUpgradeTlsResult>;
   destroyConnection(opts: { connectionId: string }): Promise<void>;
-  addListener(eventName: string, listenerFunc: (event: any) => void): Promise<PluginListenerHandle>;
+  listConnections(): Promise<{
+    error: boolean;
+    errorMessage?: string | null;
+    connections: Omit<TcpConnectionSummary, 'registered' | 'native'>[];
+  }>;
+  /**
+   * `connectionId` lets the Electron preload subscribe the window to that connection only
+   * (`event-add-TCPClient`); the Capacitor and web bridges ignore it.
+   */
+  addListener(
+    eventName: string,
+    listenerFunc: (event: any) => void,
+    connectionId?: string,
+  ): Promise<PluginListenerHandle>;
   removeAllListeners(): Promise<void>;
 }
 
 const _bridge = registerPlugin<_Bridge>('TCPClient', {
-  web: () => import('./web').then((m) => new m.TCPClientWeb()),
+  web: () => import('./web.js').then((m) => new m.TCPClientWeb()),
   electron: () => Promise.resolve((window as any).CapacitorCustomPlatform.plugins.TCPClient as _Bridge),
 });
 
@@ -64,6 +128,41 @@ function withLifecycleTimeout<T>(promise: Promise<T>, label: string): Promise<T>
   });
 }
 
+// Base64 requests are decoded here so every platform receives bytes; null for invalid input.
+function _requestBytes(data: TcpBytePayload | string, encoding: TcpDataEncoding): TcpBytePayload | null {
+  if (typeof data !== 'string') return data;
+  return encoding === 'base64' ? decodeBase64(data) : null;
+}
+
+// expectText is encoded here so every platform receives ordinary byte patterns.
+// Returns the options to send, or an error message.
+function _resolveExpectText<T extends TcpReadOptions>(options: T): Omit<T, 'expectText' | 'textEncoding'> | string {
+  const { expectText, textEncoding, ...rest } = options;
+  const encoding = parseTextEncoding(textEncoding);
+  if (!encoding) return 'invalid textEncoding';
+  if (expectText == null) return rest;
+  if (rest.expect != null) return 'expect and expectText cannot be combined';
+  const encode = (text: unknown) => (typeof text === 'string' ? encodeText(text, encoding) : null);
+  const patterns = Array.isArray(expectText) ? expectText.map(encode) : [encode(expectText)];
+  if (patterns.length === 0 || patterns.some((p) => !p)) return 'invalid expectText';
+  const bytes = patterns.map((p) => Array.from(p as Uint8Array));
+  // A single number[] is one pattern; an array of them is a list of alternatives.
+  return { ...rest, expect: Array.isArray(expectText) ? bytes : bytes[0] };
+}
+
+function _rrFailure(errorMessage: string): TcpWriteAndReadResult {
+  return {
+    error: true,
+    errorMessage,
+    bytesSent: 0,
+    bytesReceived: 0,
+    data: [],
+    matched: false,
+    matchedIndex: -1,
+    matchOffset: -1,
+  };
+}
+
 function _uuid(): string {
   if (typeof crypto !== 'undefined' && typeof (crypto as any).randomUUID === 'function') {
     return (crypto as any).randomUUID() as string;
@@ -82,19 +181,101 @@ class _TCPConnection implements TCPConnection {
   readonly connectionId: string;
   private readonly _defaults: Partial<TcpConnectOptions>;
   private _handles: PluginListenerHandle[] = [];
+  private _framer: Framer | null = null;
+  private _messageListeners: Array<(event: TcpMessageEvent) => void> = [];
+  private _framerFeed: Promise<PluginListenerHandle[]> | null = null;
+  private readonly _queue = createOperationQueue();
+  private readonly _queueEnabled: boolean;
+  private readonly _reconnect: ReconnectPolicy | null;
+  // Last successful connect() options and running startRead() options, replayed by auto-reconnect
+  private _lastConnect: TcpConnectOptions | null = null;
+  private _lastRead: TcpStartReadOptions | null = null;
+  private _disconnectWatch: Promise<PluginListenerHandle> | null = null;
+  // Bumped to cancel a running reconnect loop
+  private _reconnectRun = 0;
+  private _reconnecting = false;
+  private _reconnectWait: { timer: ReturnType<typeof setTimeout>; wake: () => void } | null = null;
+  private _localListeners = new Map<string, Array<(event: any) => void>>();
+  private readonly _heartbeat: HeartbeatPolicy | null;
+  private readonly _heartbeatInvalid: boolean;
+  private _heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+  // Bumped to drop the result of a heartbeat that was in flight when heartbeats stopped
+  private _heartbeatRun = 0;
+  private _heartbeatMisses = 0;
+  // Time of the last reply to a user writeAndRead()/read(); heartbeats wait for an idle interval
+  private _lastActivity = 0;
+  // Reported instead of 'manual' for the disconnect this wrapper triggers itself
+  private _closeReason: 'heartbeat' | null = null;
+  // Form of tcpData `data` requested by the last startRead()
+  private _readEncoding: TcpDataEncoding = 'array';
+  // Decoding of tcpText requested by the last startRead()
+  private _textEncoding: TcpTextEncoding = 'utf-8';
+  private readonly _trace: TraceBuffer | null;
+  private _traceFeed: Promise<PluginListenerHandle> | null = null;
+  // Addresses of the last connection for exportPcapng(); kept after disconnect
+  private _endpoints: PcapEndpoints = {};
+  private readonly _stats = createStatsCollector();
+  private _statsFeed: Promise<PluginListenerHandle> | null = null;
 
-  constructor(connectionId: string, defaults: Partial<TcpConnectOptions> = {}) {
+  constructor(
+    connectionId: string,
+    defaults: Partial<TcpConnectOptions> = {},
+    settings: {
+      queue?: boolean;
+      reconnect?: boolean | TcpReconnectOptions;
+      heartbeat?: TcpHeartbeatOptions;
+      trace?: boolean | TcpTraceOptions;
+    } = {},
+  ) {
     this.connectionId = connectionId;
     this._defaults = defaults;
+    this._queueEnabled = settings.queue !== false;
+    this._reconnect = parseReconnectPolicy(settings.reconnect);
+    this._heartbeat = settings.heartbeat ? parseHeartbeatPolicy(settings.heartbeat) : null;
+    this._heartbeatInvalid = settings.heartbeat != null && !this._heartbeat;
+    const trace = parseTracePolicy(settings.trace);
+    this._trace = trace ? createTraceBuffer(trace) : null;
   }
 
-  connect(options: Partial<TcpConnectOptions> = {}): Promise<TcpConnectResult> {
+  get queueLength(): number {
+    return this._queue.length;
+  }
+
+  async connect(options: Partial<TcpConnectOptions> = {}): Promise<TcpConnectResult> {
     const merged = { ...this._defaults, ...options };
-    if (!merged.host) return Promise.resolve({ error: true, errorMessage: 'host is required', connected: false });
-    return _bridge.connect({ ...(merged as TcpConnectOptions), connectionId: this.connectionId });
+    if (!merged.host) return { error: true, errorMessage: 'host is required', connected: false };
+    if (this._heartbeatInvalid) return { error: true, errorMessage: 'invalid heartbeat', connected: false };
+    this._cancelReconnect();
+    this._stopHeartbeat();
+    this._closeReason = null;
+    this._lastRead = null;
+    if (this._reconnect || this._heartbeat) await this._ensureDisconnectWatch();
+    if (this._trace) await this._ensureTraceFeed();
+    const result = await _bridge.connect({ ...(merged as TcpConnectOptions), connectionId: this.connectionId });
+    if (!result.error && result.connected) {
+      this._lastConnect = merged as TcpConnectOptions;
+      this._noteEndpoints(merged as TcpConnectOptions, result);
+      this._startHeartbeat();
+    }
+    return result;
+  }
+
+  upgradeToTls(options: TcpUpgradeTlsOptions = {}): Promise<TcpUpgradeTlsResult> {
+    const { priority, queueTimeout, ...rest } = options;
+    return this._enqueue(
+      { priority, queueTimeout },
+      () => _bridge.upgradeToTls({ ...rest, connectionId: this.connectionId }),
+      (errorMessage) => ({ error: true, errorMessage, upgraded: false }),
+    );
   }
 
   disconnect(): Promise<TcpDisconnectResult> {
+    // A manual disconnect never reconnects
+    this._lastConnect = null;
+    this._lastRead = null;
+    this._closeReason = null;
+    this._cancelReconnect();
+    this._stopHeartbeat();
     return withLifecycleTimeout(_bridge.disconnect({ connectionId: this.connectionId }), 'disconnect');
   }
 
@@ -106,19 +287,241 @@ class _TCPConnection implements TCPConnection {
     return _bridge.isReading({ connectionId: this.connectionId });
   }
 
+  getConnectionInfo(): Promise<TcpConnectionInfoResult> {
+    return _bridge.getConnectionInfo({ connectionId: this.connectionId });
+  }
+
   write(options: TcpWriteOptions): Promise<TcpWriteResult> {
-    return _bridge.write({ ...options, connectionId: this.connectionId });
+    const { priority, queueTimeout, data, ...rest } = options;
+    const encoding = parseDataEncoding(rest.dataEncoding);
+    if (!encoding) return Promise.resolve({ error: true, errorMessage: 'invalid dataEncoding', bytesSent: 0 });
+    const bytes = _requestBytes(data, encoding);
+    if (!bytes) return Promise.resolve({ error: true, errorMessage: 'invalid base64 data', bytesSent: 0 });
+    return this._enqueue(
+      { priority, queueTimeout },
+      async () => {
+        const result = await this._traceCall('write', bytes, () =>
+          _bridge.write({ ...rest, data: bytes, connectionId: this.connectionId }),
+        );
+        this._stats.write(result);
+        return result;
+      },
+      (errorMessage) => ({ error: true, errorMessage, bytesSent: 0 }),
+    );
+  }
+
+  writeText(text: string, options: TcpWriteTextOptions = {}): Promise<TcpWriteResult> {
+    const { encoding: encodingOption, lineEnding, ...queueOptions } = options;
+    const fail = (errorMessage: string) => Promise.resolve({ error: true, errorMessage, bytesSent: 0 });
+    const encoding = parseTextEncoding(encodingOption);
+    if (!encoding) return fail('invalid encoding');
+    const suffix = lineEndingSuffix(lineEnding);
+    if (suffix == null) return fail('invalid lineEnding');
+    if (typeof text !== 'string') return fail('text must be a string');
+    const data = encodeText(text + suffix, encoding);
+    if (!data) return fail(`text cannot be encoded as ${encoding}`);
+    return this.write({ ...queueOptions, data });
+  }
+
+  writeAndRead(options: TcpWriteAndReadOptions & { dataEncoding: 'base64' }): Promise<TcpWriteAndReadResult<string>>;
+  writeAndRead(
+    options: TcpWriteAndReadOptions & { dataEncoding: 'uint8array' },
+  ): Promise<TcpWriteAndReadResult<Uint8Array>>;
+  writeAndRead(options: TcpWriteAndReadOptions): Promise<TcpWriteAndReadResult>;
+  writeAndRead(options: TcpWriteAndReadOptions): Promise<TcpWriteAndReadResult<TcpData>> {
+    const { priority, queueTimeout, data, ...request } = options;
+    const encoding = parseDataEncoding(request.dataEncoding);
+    if (!encoding) return Promise.resolve(_rrFailure('invalid dataEncoding'));
+    const bytes = _requestBytes(data, encoding);
+    if (!bytes) return Promise.resolve(this._finishReply(_rrFailure('invalid base64 data'), encoding));
+    const rest = _resolveExpectText(request);
+    if (typeof rest === 'string') return Promise.resolve(this._finishReply(_rrFailure(rest), encoding));
+    return this._enqueue(
+      { priority, queueTimeout },
+      async () => {
+        // timed from the moment the request leaves the queue
+        const started = Date.now();
+        const result = await this._traceCall('rr', bytes, () =>
+          _bridge.writeAndRead({ ...rest, data: bytes, connectionId: this.connectionId }),
+        );
+        this._stats.request(result, Date.now() - started, rest.expect != null || rest.lengthField != null);
+        return result;
+      },
+      _rrFailure,
+    ).then((result) => this._finishReply(result, encoding));
+  }
+
+  read(options: TcpReadOptions & { dataEncoding: 'base64' }): Promise<TcpReadResult<string>>;
+  read(options: TcpReadOptions & { dataEncoding: 'uint8array' }): Promise<TcpReadResult<Uint8Array>>;
+  read(options?: TcpReadOptions): Promise<TcpReadResult>;
+  read(options: TcpReadOptions = {}): Promise<TcpReadResult<TcpData>> {
+    const { priority, queueTimeout, ...request } = options;
+    const failure = (errorMessage: string): TcpReadResult => ({
+      error: true,
+      errorMessage,
+      bytesReceived: 0,
+      data: [],
+      matched: false,
+      matchedIndex: -1,
+      matchOffset: -1,
+    });
+    const encoding = parseDataEncoding(request.dataEncoding);
+    if (!encoding) return Promise.resolve(failure('invalid dataEncoding'));
+    const rest = _resolveExpectText(request);
+    if (typeof rest === 'string') return Promise.resolve(this._finishReply(failure(rest), encoding));
+    return this._enqueue(
+      { priority, queueTimeout },
+      () => this._traceCall('read', null, () => _bridge.read({ ...rest, connectionId: this.connectionId })),
+      failure,
+    ).then((result) => this._finishReply(result, encoding));
+  }
+
+  // Native error paths do not report match details, and Android/iOS always send number[];
+  // normalize so callers can rely on the fields and on the requested data form.
+  private _finishReply<T extends TcpReadResult<TcpData>>(result: T, encoding: TcpDataEncoding): T {
+    this._noteActivity(result);
+    return {
+      ...result,
+      data: encodeData(result.data, encoding),
+      matchedIndex: result.matchedIndex ?? -1,
+      matchOffset: result.matchOffset ?? -1,
+    };
+  }
+
+  // write/writeAndRead/read share one queue per connection because the native layers reject
+  // overlapping I/O with 'busy'. With queue: false the call goes straight to the bridge.
+  private _enqueue<T>(
+    options: TcpQueueOptions,
+    task: () => Promise<T>,
+    failure: (errorMessage: string) => T,
+  ): Promise<T> {
+    if (!this._queueEnabled) return task();
+    return this._queue.run(task, options, () => failure('queue timeout'));
+  }
+
+  // Records the request, stamped with the start time, and whatever came back once the call settles.
+  // Bytes count as sent unless the call failed without reporting any.
+  private async _traceCall<
+    T extends {
+      error: boolean;
+      errorMessage?: string | null;
+      bytesSent?: number;
+      bytesReceived?: number;
+      data?: TcpData;
+    },
+  >(operation: TcpTraceEntry['operation'], request: ArrayLike<number> | null, call: () => Promise<T>): Promise<T> {
+    if (!this._trace) return call();
+    const timestamp = Date.now();
+    const result = await call();
+    const error = result.error ? (result.errorMessage ?? 'failed') : undefined;
+    const sent = !result.error || (result.bytesSent ?? 0) > 0;
+    if (request) this._traceRecord({ timestamp, direction: 'tx', operation, error: sent ? undefined : error }, request);
+    if (operation !== 'write' && (result.bytesReceived || (error && (sent || !request)))) {
+      this._traceRecord({ timestamp: Date.now(), direction: 'rx', operation, error }, toBytes(result.data));
+    }
+    return result;
+  }
+
+  private _traceRecord(entry: Omit<TcpTraceEntry, 'connectionId' | 'data' | 'length'>, bytes: ArrayLike<number>) {
+    if (!this._trace) return;
+    const { error, ...rest } = entry;
+    const stored = this._trace.record({ connectionId: this.connectionId, ...rest, ...(error ? { error } : {}) }, bytes);
+    this._emitLocal('tcpTrace', stored);
+  }
+
+  // Stream chunks are traced through a tcpData subscription of their own, opened by connect().
+  private _ensureTraceFeed(): Promise<PluginListenerHandle> {
+    if (!this._traceFeed) {
+      const feed = this._listen('tcpData', (event: TcpDataEvent<TcpData>) =>
+        this._traceRecord({ timestamp: Date.now(), direction: 'rx', operation: 'stream' }, toBytes(event.data)),
+      );
+      feed.catch(() => {
+        if (this._traceFeed === feed) this._traceFeed = null;
+      });
+      this._traceFeed = feed;
+    }
+    return this._traceFeed;
+  }
+
+  getTrace(): TcpTraceEntry[] {
+    return this._trace?.entries() ?? [];
+  }
+
+  exportTrace(): string {
+    return formatHexDump(this.getTrace());
+  }
+
+  clearTrace(): void {
+    this._trace?.clear();
+  }
+
+  exportPcapng(): Uint8Array {
+    return buildPcapng(this.getTrace(), this._endpoints);
+  }
+
+  getStats(): TcpConnectionStats {
+    return { connectionId: this.connectionId, ...this._stats.snapshot() };
+  }
+
+  // Collector state for TCPClient.getStats(); not part of TCPConnection.
+  _statsParts() {
+    return this._stats.parts();
+  }
+
+  // Target for TCPClient.listConnections(); not part of TCPConnection.
+  _target(): { host?: string; port?: number } {
+    const options = this._lastConnect ?? this._defaults;
+    return { host: options.host, port: options.port };
+  }
+
+  // Stream bytes are counted through a tcpData subscription of their own, opened by startRead().
+  private _ensureStatsFeed(): Promise<PluginListenerHandle> {
+    if (!this._statsFeed) {
+      const feed = this._listen('tcpData', (event: TcpDataEvent<TcpData>) =>
+        this._stats.stream(toBytes(event.data).length),
+      );
+      feed.catch(() => {
+        if (this._statsFeed === feed) this._statsFeed = null;
+      });
+      this._statsFeed = feed;
+    }
+    return this._statsFeed;
+  }
+
+  // Only Electron reports socket addresses; elsewhere the connect options stand in for the remote end.
+  private _noteEndpoints(options: TcpConnectOptions, result: TcpConnectResult) {
+    this._endpoints = {
+      localAddress: result.localAddress,
+      localPort: result.localPort,
+      remoteAddress: result.remoteAddress ?? options.host,
+      remotePort: result.remotePort ?? options.port ?? 9100,
+    };
   }
 
-  writeAndRead(options: TcpWriteAndReadOptions): Promise<TcpWriteAndReadResult> {
-    return _bridge.writeAndRead({ ...options, connectionId: this.connectionId });
+  // A reply proves the peer is alive, so the next heartbeat can wait.
+  private _noteActivity(result: { error: boolean; bytesReceived: number }) {
+    if (!result.error && result.bytesReceived > 0) this._lastActivity = Date.now();
   }
 
   startRead(options: TcpStartReadOptions = {}): Promise<TcpStartStopResult> {
-    return _bridge.startRead({ ...options, connectionId: this.connectionId });
+    const encoding = parseDataEncoding(options.dataEncoding);
+    if (!encoding) return Promise.resolve({ error: true, errorMessage: 'invalid dataEncoding', reading: false });
+    const textEncoding = parseTextEncoding(options.textEncoding);
+    if (!textEncoding) return Promise.resolve({ error: true, errorMessage: 'invalid textEncoding', reading: false });
+    return this._ensureStatsFeed()
+      .then(() => _bridge.startRead({ ...options, connectionId: this.connectionId }))
+      .then((result) => {
+        if (!result.error) {
+          this._lastRead = { ...options };
+          this._readEncoding = encoding;
+          this._textEncoding = textEncoding;
+        }
+        return result;
+      });
   }
 
   stopRead(): Promise<TcpStartStopResult> {
+    this._lastRead = null;
     return _bridge.stopRead({ connectionId: this.connectionId });
   }
 
@@ -126,38 +529,405 @@ class _TCPConnection implements TCPConnection {
     return _bridge.setReadTimeout({ ...options, connectionId: this.connectionId });
   }
 
-  async addListener(eventName: 'tcpData', listenerFunc: (event: TcpDataEvent) => void): Promise<PluginListenerHandle>;
+  setFramer(framer: TcpFramerOptions | null): { error: boolean; errorMessage?: string | null } {
+    if (framer == null) {
+      this._framer = null;
+      return { error: false, errorMessage: null };
+    }
+    const next = createFramer(framer);
+    if (!next) return { error: true, errorMessage: 'invalid framer options' };
+    this._framer = next;
+    return { error: false, errorMessage: null };
+  }
+
+  readable(options: TcpStartReadOptions = {}): AsyncIterableIterator<Uint8Array> {
+    const source = this._openChunkSource(options);
+    return {
+      next: () => source.next(),
+      return: async () => {
+        await source.close();
+        return { done: true, value: undefined };
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  toStreams(options: TcpStartReadOptions = {}): TcpStreamPair {
+    if (typeof ReadableStream === 'undefined' || typeof WritableStream === 'undefined') {
+      throw new Error('WHATWG streams are not available in this environment');
+    }
+    let source: ReturnType<_TCPConnection['_openChunkSource']> | null = null;
+    const readable = new ReadableStream<Uint8Array>({
+      start: () => {
+        source = this._openChunkSource(options);
+      },
+      pull: async (controller) => {
+        const result = await (source as NonNullable<typeof source>).next();
+        if (result.done) controller.close();
+        else controller.enqueue(result.value);
+      },
+      cancel: () => source?.close(),
+    });
+    const writable = new WritableStream<Uint8Array>({
+      write: async (chunk) => {
+        const result = await this.write({ data: chunk });
+        if (result.error) throw new Error(result.errorMessage ?? 'write failed');
+      },
+      close: async () => {
+        await this.disconnect();
+      },
+      abort: async () => {
+        await this.disconnect();
+      },
+    });
+    return { readable, writable };
+  }
+
+  // Shared by readable() and toStreams(): tcpData chunks are queued until pulled. A tcpDisconnect
+  // ends the source, or fails it when reason is 'error'; close() stops the stream reader.
+  private _openChunkSource(options: TcpStartReadOptions) {
+    const queue = createChunkQueue();
+    let handles: PluginListenerHandle[] = [];
+    let closed = false;
+    const release = async () => {
+      const current = handles;
+      handles = [];
+      await Promise.all(current.map((h) => h.remove().catch(() => undefined)));
+    };
+    const ready = (async () => {
+      handles.push(await this.addListener('tcpData', (event) => queue.push(toBytes(event.data))));
+      handles.push(
+        await this.addListener('tcpDisconnect', (event) => {
+          if (event.reason === 'error') queue.fail(new Error(event.error ?? 'connection error'));
+          else queue.end();
+          void release();
+        }),
+      );
+      if (closed) return release();
+      const result = await this.startRead(options);
+      if (result.error) {
+        queue.fail(new Error(result.errorMessage ?? 'startRead failed'));
+        await release();
+      }
+    })().catch((error) => {
+      queue.fail(error instanceof Error ? error : new Error(String(error)));
+      return release();
+    });
+    return {
+      next: () => queue.next(),
+      close: async () => {
+        closed = true;
+        queue.end();
+        await ready;
+        await release();
+        await this.stopRead().catch(() => undefined);
+      },
+    };
+  }
+
+  async addListener<D extends TcpData = number[]>(
+    eventName: 'tcpData',
+    listenerFunc: (event: TcpDataEvent<D>) => void,
+  ): Promise<PluginListenerHandle>;
+  async addListener(
+    eventName: 'tcpMessage',
+    listenerFunc: (event: TcpMessageEvent) => void,
+  ): Promise<PluginListenerHandle>;
+  async addListener(eventName: 'tcpText', listenerFunc: (event: TcpTextEvent) => void): Promise<PluginListenerHandle>;
+  async addListener(eventName: 'tcpTrace', listenerFunc: (event: TcpTraceEntry) => void): Promise<PluginListenerHandle>;
   async addListener(
     eventName: 'tcpDisconnect',
     listenerFunc: (event: TcpDisconnectEvent) => void,
   ): Promise<PluginListenerHandle>;
   async addListener(
-    eventName: 'tcpData' | 'tcpDisconnect',
+    eventName: 'tcpReconnecting',
+    listenerFunc: (event: TcpReconnectingEvent) => void,
+  ): Promise<PluginListenerHandle>;
+  async addListener(
+    eventName: 'tcpReconnected',
+    listenerFunc: (event: TcpReconnectedEvent) => void,
+  ): Promise<PluginListenerHandle>;
+  async addListener(
+    eventName:
+      'tcpData' | 'tcpMessage' | 'tcpText' | 'tcpTrace' | 'tcpDisconnect' | 'tcpReconnecting' | 'tcpReconnected',
     listenerFunc: (event: any) => void,
   ): Promise<PluginListenerHandle> {
+    let handle: PluginListenerHandle;
+    if (eventName === 'tcpMessage') handle = await this._addMessageListener(listenerFunc);
+    else if (eventName === 'tcpText') handle = await this._addTextListener(listenerFunc);
+    else if (eventName === 'tcpReconnecting' || eventName === 'tcpReconnected' || eventName === 'tcpTrace')
+      handle = this._addLocalListener(eventName, listenerFunc);
+    else handle = await this._listen(eventName, listenerFunc);
+    const ownHandle: PluginListenerHandle = {
+      remove: async () => {
+        await handle.remove();
+        this._handles = this._handles.filter((h) => h !== ownHandle);
+      },
+    };
+    this._handles.push(ownHandle);
+    return ownHandle;
+  }
+
+  private async _listen(eventName: string, listenerFunc: (event: any) => void): Promise<PluginListenerHandle> {
     const id = this.connectionId;
     // Filter: only deliver events that belong to this connection
     const wrapped = (event: any) => {
-      if (event.connectionId === id) listenerFunc(event);
+      if (event.connectionId !== id) return;
+      // Electron sends tcpData in the requested form; Android/iOS always send number[]
+      if (eventName === 'tcpData') {
+        listenerFunc({ ...event, data: encodeData(event.data, this._readEncoding) });
+      } else if (eventName === 'tcpDisconnect' && event.reason === 'manual' && this._closeReason) {
+        listenerFunc({ ...event, reason: this._closeReason, error: event.error ?? 'heartbeat missed' });
+      } else {
+        listenerFunc(event);
+      }
     };
-    const raw = await _bridge.addListener(eventName, wrapped);
+    const raw = await _bridge.addListener(eventName, wrapped, id);
     // Capacitor bridge returns PluginListenerHandle; Electron preload returns a string id
-    const handle: PluginListenerHandle =
-      typeof raw === 'string'
-        ? {
-            remove: async () => {
-              (_bridge as any).removeListener?.(raw);
-            },
+    return typeof raw === 'string'
+      ? {
+          remove: async () => {
+            (_bridge as any).removeListener?.(raw, eventName, id);
+          },
+        }
+      : (raw as unknown as PluginListenerHandle);
+  }
+
+  // Events synthesized by this wrapper (reconnect lifecycle, trace) never cross the bridge.
+  private _addLocalListener(eventName: string, listenerFunc: (event: any) => void): PluginListenerHandle {
+    const entry = (event: any) => listenerFunc(event);
+    this._localListeners.set(eventName, [...(this._localListeners.get(eventName) ?? []), entry]);
+    return {
+      remove: async () => {
+        const rest = (this._localListeners.get(eventName) ?? []).filter((l) => l !== entry);
+        if (rest.length > 0) this._localListeners.set(eventName, rest);
+        else this._localListeners.delete(eventName);
+      },
+    };
+  }
+
+  private _emitLocal(eventName: string, event: object) {
+    for (const listener of [...(this._localListeners.get(eventName) ?? [])]) listener(event);
+  }
+
+  // Shared tcpDisconnect subscription for auto-reconnect and the heartbeat.
+  private _ensureDisconnectWatch(): Promise<PluginListenerHandle> {
+    if (!this._disconnectWatch) {
+      const watch = this._listen('tcpDisconnect', (event: TcpDisconnectEvent) => {
+        this._stopHeartbeat();
+        if (this._reconnect && event.reason !== 'manual' && this._lastConnect && !this._reconnecting) {
+          void this._runReconnect(event.reason, this._lastConnect);
+        }
+      });
+      watch.catch(() => {
+        if (this._disconnectWatch === watch) this._disconnectWatch = null;
+      });
+      this._disconnectWatch = watch;
+    }
+    return this._disconnectWatch;
+  }
+
+  private async _runReconnect(
+    reason: Exclude<TcpDisconnectEvent['reason'], 'manual'>,
+    options: TcpConnectOptions,
+  ): Promise<void> {
+    const policy = this._reconnect as ReconnectPolicy;
+    const run = ++this._reconnectRun;
+    const restore = policy.restoreRead ? this._lastRead : null;
+    const id = this.connectionId;
+    this._reconnecting = true;
+    let error: string | undefined;
+    try {
+      for (let attempt = 1; policy.maxAttempts === 0 || attempt <= policy.maxAttempts; attempt++) {
+        const delay = reconnectDelay(policy, attempt);
+        const event: TcpReconnectingEvent = { connectionId: id, attempt, delay, reason };
+        if (error) event.error = error;
+        this._emitLocal('tcpReconnecting', event);
+        this._stats.reconnectAttempt();
+        await new Promise<void>((wake) => {
+          this._reconnectWait = { timer: setTimeout(wake, delay), wake };
+        });
+        this._reconnectWait = null;
+        if (run !== this._reconnectRun) return;
+
+        const result = await _bridge
+          .connect({ ...options, connectionId: id })
+          .catch((e): TcpConnectResult => ({ error: true, errorMessage: String(e), connected: false }));
+        if (run !== this._reconnectRun) return;
+        if (!result.error && result.connected) {
+          this._closeReason = null;
+          this._noteEndpoints(options, result);
+          this._startHeartbeat();
+          let reading = false;
+          if (restore) {
+            const started = await _bridge.startRead({ ...restore, connectionId: id }).catch(() => null);
+            reading = !!started && !started.error;
           }
-        : (raw as unknown as PluginListenerHandle);
-    const ownHandle: PluginListenerHandle = {
+          this._lastRead = reading ? restore : null;
+          this._stats.reconnected();
+          const done: TcpReconnectedEvent = { connectionId: id, attempts: attempt, reading };
+          this._emitLocal('tcpReconnected', done);
+          return;
+        }
+        error = result.errorMessage ?? 'connect failed';
+      }
+    } finally {
+      if (run === this._reconnectRun) this._reconnecting = false;
+    }
+  }
+
+  private _cancelReconnect() {
+    this._reconnectRun++;
+    this._reconnecting = false;
+    const wait = this._reconnectWait;
+    this._reconnectWait = null;
+    if (wait) {
+      clearTimeout(wait.timer);
+      wait.wake();
+    }
+  }
+
+  private _startHeartbeat() {
+    if (!this._heartbeat) return;
+    this._stopHeartbeat();
+    this._heartbeatMisses = 0;
+    this._lastActivity = Date.now();
+    this._scheduleHeartbeat(this._heartbeat.interval);
+  }
+
+  private _stopHeartbeat() {
+    this._heartbeatRun++;
+    if (this._heartbeatTimer) clearTimeout(this._heartbeatTimer);
+    this._heartbeatTimer = null;
+  }
+
+  private _scheduleHeartbeat(delay: number) {
+    this._heartbeatTimer = setTimeout(() => {
+      this._heartbeatTimer = null;
+      void this._heartbeatTick();
+    }, delay);
+  }
+
+  private async _heartbeatTick(): Promise<void> {
+    const policy = this._heartbeat as HeartbeatPolicy;
+    const run = this._heartbeatRun;
+    // Yield to user traffic: only send after a full interval without replies and with an idle queue
+    const quiet = Date.now() - this._lastActivity;
+    if (!this._queue.idle || quiet < policy.interval) {
+      this._scheduleHeartbeat(this._queue.idle ? policy.interval - quiet : policy.interval);
+      return;
+    }
+
+    const request = {
+      data: policy.data,
+      expect: policy.expect,
+      timeout: policy.timeout,
+      connectionId: this.connectionId,
+    };
+    const result = await this._enqueue(
+      {},
+      () => this._traceCall('rr', policy.data, () => _bridge.writeAndRead(request)),
+      _rrFailure,
+    ).catch((error) => _rrFailure(String(error)));
+    if (run !== this._heartbeatRun) return;
+    // With queue: false a user operation may hold the socket; that is not a miss.
+    if (result.error && /busy$/.test(result.errorMessage ?? '')) {
+      this._scheduleHeartbeat(policy.interval);
+      return;
+    }
+    const alive = !result.error && (policy.expect === undefined || result.matched);
+    this._heartbeatMisses = alive ? 0 : this._heartbeatMisses + 1;
+    if (this._heartbeatMisses < policy.maxMisses) {
+      this._scheduleHeartbeat(policy.interval);
+      return;
+    }
+    // The native layer reports this close as 'manual'; _listen rewrites it to 'heartbeat'.
+    this._closeReason = 'heartbeat';
+    await _bridge.disconnect({ connectionId: this.connectionId }).catch(() => undefined);
+  }
+
+  // tcpMessage is synthesized here: one shared tcpData/tcpDisconnect subscription feeds the
+  // framer while at least one tcpMessage listener exists.
+  private async _addMessageListener(listenerFunc: (event: TcpMessageEvent) => void): Promise<PluginListenerHandle> {
+    const entry = (event: TcpMessageEvent) => listenerFunc(event);
+    this._messageListeners.push(entry);
+    try {
+      await this._ensureFramerFeed();
+    } catch (error) {
+      this._messageListeners = this._messageListeners.filter((l) => l !== entry);
+      throw error;
+    }
+    return {
       remove: async () => {
-        await handle.remove();
-        this._handles = this._handles.filter((h) => h !== ownHandle);
+        this._messageListeners = this._messageListeners.filter((l) => l !== entry);
+        if (this._messageListeners.length === 0) await this._releaseFramerFeed();
+      },
+    };
+  }
+
+  private _ensureFramerFeed(): Promise<PluginListenerHandle[]> {
+    if (!this._framerFeed) {
+      const feed = (async () => {
+        const data = await this._listen('tcpData', (event: TcpDataEvent<TcpData>) =>
+          this._onFramerData(toBytes(event.data)),
+        );
+        try {
+          // A partial frame must not be glued to the first bytes of the next connection.
+          const disconnect = await this._listen('tcpDisconnect', () => this._framer?.reset());
+          return [data, disconnect];
+        } catch (error) {
+          await data.remove().catch(() => undefined);
+          throw error;
+        }
+      })();
+      feed.catch(() => {
+        if (this._framerFeed === feed) this._framerFeed = null;
+      });
+      this._framerFeed = feed;
+    }
+    return this._framerFeed;
+  }
+
+  private async _releaseFramerFeed(): Promise<void> {
+    const feed = this._framerFeed;
+    this._framerFeed = null;
+    this._framer?.reset();
+    const handles = await feed?.catch(() => []);
+    await Promise.all((handles ?? []).map((h) => h.remove()));
+  }
+
+  private _onFramerData(data: ArrayLike<number>) {
+    const framer = this._framer;
+    if (!framer) return;
+    for (const frame of framer.push(data)) {
+      const event: TcpMessageEvent = { connectionId: this.connectionId, data: Array.from(frame) };
+      for (const listener of [...this._messageListeners]) listener(event);
+    }
+  }
+
+  // Each tcpText listener decodes tcpData with its own streaming decoder, recreated when
+  // startRead() switches textEncoding and reset on disconnect.
+  private async _addTextListener(listenerFunc: (event: TcpTextEvent) => void): Promise<PluginListenerHandle> {
+    let decoder = createTextDecoder(this._textEncoding);
+    const data = await this._listen('tcpData', (event: TcpDataEvent<TcpData>) => {
+      if (decoder.encoding !== this._textEncoding) decoder = createTextDecoder(this._textEncoding);
+      const text = decoder.push(toBytes(event.data));
+      if (text) listenerFunc({ connectionId: this.connectionId, text });
+    });
+    let disconnect: PluginListenerHandle;
+    try {
+      disconnect = await this._listen('tcpDisconnect', () => decoder.reset());
+    } catch (error) {
+      await data.remove().catch(() => undefined);
+      throw error;
+    }
+    return {
+      remove: async () => {
+        await Promise.all([data.remove(), disconnect.remove()]);
       },
     };
-    this._handles.push(ownHandle);
-    return ownHandle;
   }
 
   async removeAllListeners(): Promise<void> {
@@ -173,6 +943,13 @@ class _TCPConnection implements TCPConnection {
     try {
       await Promise.all(this._handles.map((h) => h.remove().catch(() => undefined)));
       this._handles = [];
+      const watch = this._disconnectWatch;
+      const trace = this._traceFeed;
+      const stats = this._statsFeed;
+      this._disconnectWatch = null;
+      this._traceFeed = null;
+      this._statsFeed = null;
+      await Promise.all([watch, trace, stats].map((feed) => feed?.then((h) => h.remove()).catch(() => undefined)));
     } finally {
       _registry.delete(this.connectionId);
       await withLifecycleTimeout(
@@ -183,13 +960,38 @@ class _TCPConnection implements TCPConnection {
   }
 }
 
+// Registry entries merged with the native connection list. A failed native listing still
+// returns the registered instances.
+async function _listConnections(): Promise<TcpListConnectionsResult> {
+  const listed = await _bridge
+    .listConnections()
+    .catch((error) => ({ error: true, errorMessage: String(error), connections: [] }));
+  const native = new Map((listed.connections ?? []).map((entry) => [entry.connectionId, entry]));
+  const connections: TcpConnectionSummary[] = [];
+  for (const [connectionId, conn] of _registry) {
+    const entry = native.get(connectionId);
+    native.delete(connectionId);
+    connections.push({
+      connectionId,
+      ...conn._target(),
+      connected: false,
+      reading: false,
+      ...entry,
+      registered: true,
+      native: !!entry,
+    });
+  }
+  for (const entry of native.values()) connections.push({ ...entry, registered: false, native: true });
+  return { error: listed.error, errorMessage: listed.error ? listed.errorMessage : null, connections };
+}
+
 const TCPClient: TCPClientPlugin = {
   createConnection(options: TcpCreateConnectionOptions = {}): TCPConnection {
-    const { connectionId, ...connectDefaults } = options;
+    const { connectionId, queue, reconnect, heartbeat, trace, ...connectDefaults } = options;
     const id = connectionId ?? _uuid();
     const existing = _registry.get(id);
     if (existing) return existing;
-    const conn = new _TCPConnection(id, connectDefaults);
+    const conn = new _TCPConnection(id, connectDefaults, { queue, reconnect, heartbeat, trace });
     _registry.set(id, conn);
     return conn;
   },
@@ -197,6 +999,47 @@ const TCPClient: TCPClientPlugin = {
   getPluginPlatform(): Promise<TcpGetPlatformResult> {
     return _bridge.getPluginPlatform();
   },
+
+  registerFakeDevice(options: TcpFakeDeviceOptions): TcpFakeDevice {
+    return fakeDevices.register(options);
+  },
+
+  setWebRelay(options: TcpWebRelayOptions | null): void {
+    webRelay.configure(options);
+  },
+
+  getStats(): TcpClientStats {
+    const connections = [..._registry.values()];
+    return {
+      connections: connections.map((conn) => conn.getStats()),
+      total: summarize(
+        connections.map((conn) => conn._statsParts()),
+        Date.now(),
+      ),
+    };
+  },
+
+  listConnections(): Promise<TcpListConnectionsResult> {
+    return _listConnections();
+  },
+
+  async destroyAll(): Promise<TcpDestroyAllResult> {
+    const listed = await _listConnections();
+    await Promise.all(
+      listed.connections.map(({ connectionId }) => {
+        const conn = _registry.get(connectionId);
+        if (conn) return conn.destroy().catch(() => undefined);
+        return withLifecycleTimeout(_bridge.destroyConnection({ connectionId }), 'destroyConnection').catch(
+          () => undefined,
+        );
+      }),
+    );
+    return {
+      error: listed.error,
+      errorMessage: listed.errorMessage,
+      destroyed: listed.connections.map((entry) => entry.connectionId),
+    };
+  },
 };
 
 export * from './definitions';
@@ -0,0 +1,50 @@
+// src/utils/encoding.ts
+
+import type { TcpData, TcpDataEncoding } from '../definitions';
+
+/** Validate a dataEncoding option; undefined means 'array'. Returns null on invalid input. */
+export function parseDataEncoding(value: unknown): TcpDataEncoding | null {
+  if (value == null) return 'array';
+  return value === 'array' || value === 'base64' || value === 'uint8array' ? value : null;
+}
+
+/** Decode base64 (whitespace ignored). Returns null on invalid input. */
+export function decodeBase64(text: string): Uint8Array | null {
+  const clean = text.replace(/\s+/g, '');
+  if (clean.length % 4 !== 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(clean)) return null;
+  const binary = atob(clean);
+  const out = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) out[i] = binary.charCodeAt(i);
+  return out;
+}
+
+export function encodeBase64(bytes: ArrayLike<number>): string {
+  // Build the binary string in slices so large payloads do not overflow the argument limit.
+  const parts: string[] = [];
+  for (let off = 0; off < bytes.length; off += 0x8000) {
+    const slice = Array.prototype.slice.call(bytes, off, off + 0x8000) as number[];
+    parts.push(String.fromCharCode(...slice));
+  }
+  return btoa(parts.join(''));
+}
+
+/**
+ * Bytes from any TcpData form. A string is read as base64; invalid base64 yields no bytes.
+ * A Uint8Array is returned as-is.
+ */
+export function toBytes(data: TcpData | null | undefined): Uint8Array {
+  if (data == null) return new Uint8Array(0);
+  if (typeof data === 'string') return decodeBase64(data) ?? new Uint8Array(0);
+  return data instanceof Uint8Array ? data : Uint8Array.from(data);
+}
+
+/** Convert received data, in whatever form the platform delivered it, to `encoding`. */
+export function encodeData(data: TcpData | null | undefined, encoding: 'array'): number[];
+export function encodeData(data: TcpData | null | undefined, encoding: 'base64'): string;
+export function encodeData(data: TcpData | null | undefined, encoding: 'uint8array'): Uint8Array;
+export function encodeData(data: TcpData | null | undefined, encoding: TcpDataEncoding): TcpData;
+export function encodeData(data: TcpData | null | undefined, encoding: TcpDataEncoding): TcpData {
+  if (encoding === 'base64') return typeof data === 'string' ? data : encodeBase64(data ?? []);
+  if (encoding === 'uint8array') return toBytes(data);
+  return Array.isArray(data) ? data : Array.from(toBytes(data));
+}
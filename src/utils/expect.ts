@@ -1,28 +1,51 @@
 // src/utils/expect.ts
 
+import type { TcpExpectPattern } from '../definitions';
+
+/**
+ * Byte pattern where only the bits set in `mask` must match.
+ * `bytes` and `mask` accept the same forms as a plain pattern and must have equal length.
+ */
+export interface MaskedExpectInput {
+  bytes: string | number[] | Uint8Array;
+  mask: string | number[] | Uint8Array;
+}
+
 /**
  * Input supported by the RR "expect" option:
- * - hex string: "1b40", "0x1B 40", "1B 40"
+ * - hex string: "1b40", "0x1B 40", "1B 40"; "??" is a wildcard byte: "1B ?? 40"
  * - number[]:  [27, 64]
  * - Uint8Array
+ * - masked pattern: { bytes: [0x12, 0x00], mask: [0xff, 0x0f] }
+ */
+export type ExpectInput = string | number[] | Uint8Array | MaskedExpectInput | null | undefined;
+
+/**
+ * Parsed expect pattern.
+ * A byte matches when `(byte & mask[i]) === bytes[i]`; bytes are stored pre-masked.
+ * `mask` is null when every bit must match.
  */
-export type ExpectInput = string | number[] | Uint8Array | null | undefined;
+export interface ExpectPattern {
+  bytes: Uint8Array;
+  mask: Uint8Array | null;
+}
 
 /**
- * Parse an "expect" value into raw bytes.
- * Returns a fresh Uint8Array or null on invalid input.
+ * Parse an "expect" value into a byte pattern.
+ * Returns fresh arrays or null on invalid input.
  *
  * Rules:
  * - Whitespace and optional "0x" prefixes are ignored for strings.
- * - Hex strings must have even length and contain only [0-9a-f].
+ * - Hex strings must have even length and contain only [0-9a-f] or "??" byte wildcards.
  * - number[] values must be integer bytes in the 0..255 range.
+ * - A masked pattern needs non-empty bytes and a mask of the same length.
  */
-export function parseExpectBytes(expect: ExpectInput): Uint8Array | null {
+export function parseExpectBytes(expect: ExpectInput): ExpectPattern | null {
   if (!expect) return null;
 
   if (expect instanceof Uint8Array) {
     // Defensive copy so callers can safely mutate their original.
-    return expect.length === 0 ? null : new Uint8Array(expect);
+    return expect.length === 0 ? null : { bytes: new Uint8Array(expect), mask: null };
   }
 
   if (Array.isArray(expect)) {
@@ -33,20 +56,135 @@ export function parseExpectBytes(expect: ExpectInput): Uint8Array | null {
       if (!Number.isInteger(value) || value < 0 || value > 255) return null;
       out[i] = value;
     }
-    return out;
+    return { bytes: out, mask: null };
   }
 
   if (typeof expect === 'string') {
     const clean = expect.replace(/0x/gi, '').replace(/\s+/g, '').toLowerCase();
     if (!clean || clean.length % 2) return null;
     const out = new Uint8Array(clean.length / 2);
+    const mask = new Uint8Array(out.length).fill(0xff);
     for (let i = 0; i < clean.length; i += 2) {
-      const v = parseInt(clean.slice(i, i + 2), 16);
-      if (Number.isNaN(v)) return null;
-      out[i / 2] = v & 0xff;
+      const pair = clean.slice(i, i + 2);
+      if (pair === '??') {
+        mask[i / 2] = 0;
+        continue;
+      }
+      // parseInt() would read a half wildcard like "4?" as 0x04
+      if (!/^[0-9a-f]{2}$/.test(pair)) return null;
+      out[i / 2] = parseInt(pair, 16);
+    }
+    return withMask(out, mask);
+  }
+
+  if (isMaskedInput(expect)) {
+    const pattern = parseExpectBytes(expect.bytes);
+    const mask = parseExpectBytes(expect.mask);
+    if (!pattern || !mask || mask.mask || mask.bytes.length !== pattern.bytes.length) return null;
+    const combined = pattern.mask ?? new Uint8Array(pattern.bytes.length).fill(0xff);
+    for (let i = 0; i < combined.length; i++) combined[i] &= mask.bytes[i];
+    return withMask(pattern.bytes, combined);
+  }
+
+  return null;
+}
+
+/** True when `pattern` matches `buf` at `offset` (the caller checks bounds). */
+export function matchesExpectAt(buf: ArrayLike<number>, offset: number, pattern: ExpectPattern): boolean {
+  const { bytes, mask } = pattern;
+  for (let j = 0; j < bytes.length; j++) {
+    const value = mask ? buf[offset + j] & mask[j] : buf[offset + j];
+    if (value !== bytes[j]) return false;
+  }
+  return true;
+}
+
+/**
+ * Input supported by "expect" when alternatives are allowed:
+ * - a single pattern (see ExpectInput)
+ * - an array of alternative patterns: ["06", "15"], [[0x4f, 0x4b], "4552524f52"]
+ *
+ * A plain number[] is always one pattern; alternatives must be strings, arrays, Uint8Arrays
+ * or masked patterns.
+ */
+export type ExpectPatternsInput = ExpectInput | (string | number[] | Uint8Array | MaskedExpectInput)[];
+
+/** Position of the earliest expect match in a buffer. */
+export interface ExpectMatch {
+  /** Index of the matching pattern in the parsed pattern list. */
+  index: number;
+  /** Offset of the first matching byte. */
+  offset: number;
+}
+
+/**
+ * Parse an "expect" value into a list of alternative patterns.
+ * Returns [] when expect is absent or empty, and null on invalid input.
+ *
+ * Rules:
+ * - A single pattern follows parseExpectBytes.
+ * - An empty alternative is invalid, because it would match any reply.
+ */
+export function parseExpectPatterns(expect: ExpectPatternsInput): ExpectPattern[] | null {
+  if (Array.isArray(expect) && expect.length > 0 && expect.every((value) => typeof value !== 'number')) {
+    const out: ExpectPattern[] = [];
+    for (const alternative of expect as (string | number[] | Uint8Array | MaskedExpectInput)[]) {
+      const pattern = parseExpectBytes(alternative);
+      if (!pattern) return null;
+      out.push(pattern);
     }
     return out;
   }
 
+  if (expect == null || (!isMaskedInput(expect) && expect.length === 0)) return [];
+  const pattern = parseExpectBytes(expect as ExpectInput);
+  return pattern ? [pattern] : null;
+}
+
+/**
+ * Find the earliest match of any pattern in the first `length` bytes of `buf`.
+ * When several patterns match at the same offset, the lower pattern index wins.
+ * Pass `from` to skip start offsets that were already searched.
+ */
+export function findExpectMatch(
+  buf: ArrayLike<number>,
+  length: number,
+  patterns: ExpectPattern[],
+  from = 0,
+): ExpectMatch | null {
+  for (let offset = Math.max(0, from); offset < length; offset++) {
+    for (let index = 0; index < patterns.length; index++) {
+      const pattern = patterns[index];
+      if (offset + pattern.bytes.length > length) continue;
+      if (matchesExpectAt(buf, offset, pattern)) return { index, offset };
+    }
+  }
   return null;
 }
+
+/** Convert a public `expect` option (which also accepts array-likes) to parser input. */
+export function fromExpectOption(expect: TcpExpectPattern | TcpExpectPattern[]): ExpectPatternsInput {
+  if (Array.isArray(expect) && expect.length > 0 && expect.every((value) => typeof value !== 'number')) {
+    return (expect as TcpExpectPattern[]).map(toExpectInput) as ExpectPatternsInput;
+  }
+  return toExpectInput(expect as TcpExpectPattern);
+}
+
+function toExpectInput(pattern: TcpExpectPattern): ExpectInput {
+  if (typeof pattern === 'string') return pattern;
+  if ('bytes' in pattern && 'mask' in pattern) {
+    const part = (value: string | ArrayLike<number>) => (typeof value === 'string' ? value : Array.from(value));
+    return { bytes: part(pattern.bytes), mask: part(pattern.mask) };
+  }
+  return Array.from(pattern as ArrayLike<number>);
+}
+
+function isMaskedInput(value: unknown): value is MaskedExpectInput {
+  return typeof value === 'object' && value !== null && !(value instanceof Uint8Array) && 'bytes' in value;
+}
+
+function withMask(bytes: Uint8Array, mask: Uint8Array): ExpectPattern {
+  if (mask.every((m) => m === 0xff)) return { bytes, mask: null };
+  for (let i = 0; i < bytes.length; i++) bytes[i] &= mask[i];
+  return { bytes, mask };
+}
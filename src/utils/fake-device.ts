@@ -0,0 +1,221 @@
+// src/utils/fake-device.ts
+
+import type {
+  TcpBytePayload,
+  TcpFakeDevice,
+  TcpFakeDeviceOptions,
+  TcpFakePush,
+  TcpFakeResponder,
+} from '../definitions';
+
+import { findExpectMatch, fromExpectOption, parseExpectBytes, parseExpectPatterns } from './expect';
+import type { ExpectPattern } from './expect';
+
+/** Receives what a device sends; implemented by the web platform connection. */
+export interface FakeDeviceSink {
+  data(bytes: number[]): void;
+  close(reason: 'remote' | 'error', error?: string): void;
+}
+
+/** One open connection to a fake device. */
+export interface FakeSession {
+  /** Bytes written by the app. */
+  write(bytes: number[]): void;
+  /** App-side close: cancels everything the device still had scheduled. */
+  close(): void;
+}
+
+/** In-memory devices for the web platform, matched by host and port on connect. */
+export interface FakeDeviceRegistry {
+  /** Throws on invalid options. */
+  register(options: TcpFakeDeviceOptions): TcpFakeDevice;
+  /**
+   * Connect to the newest device registered for host/port. Resolves with an error message when
+   * the device refuses. Without a matching device the connection succeeds and stays silent.
+   */
+  open(host: string, port: number, sink: FakeDeviceSink): Promise<FakeSession | string>;
+  /** Whether a registered device answers host/port. */
+  matches(host: string, port: number): boolean;
+}
+
+interface Responder {
+  patterns: ExpectPattern[];
+  reply: TcpFakeResponder['reply'];
+  delay: number;
+  remaining: number;
+  disconnect?: 'remote' | 'error';
+}
+
+interface Device {
+  host?: string;
+  port?: number;
+  options: TcpFakeDeviceOptions;
+  responders: Responder[];
+  sessions: Set<SessionState>;
+  writes: number[][];
+}
+
+interface SessionState {
+  sink: FakeDeviceSink;
+  timers: Set<ReturnType<typeof setTimeout>>;
+  closed: boolean;
+}
+
+const SIMULATED_ERROR = 'simulated connection error';
+
+/**
+ * Bytes from a payload or hex string. Returns null for invalid input, including hex
+ * wildcards, which make no sense in data a device sends.
+ */
+export function fakePayloadBytes(value: TcpBytePayload | string | null | undefined): number[] | null {
+  if (value == null) return null;
+  if (typeof value === 'string') {
+    if (value.trim() === '') return [];
+    const pattern = parseExpectBytes(value);
+    return pattern && !pattern.mask ? Array.from(pattern.bytes) : null;
+  }
+  const bytes = Array.from(value as ArrayLike<number>);
+  return bytes.every((b) => Number.isInteger(b) && b >= 0 && b <= 255) ? bytes : null;
+}
+
+export function createFakeDeviceRegistry(): FakeDeviceRegistry {
+  const devices: Device[] = [];
+
+  const schedule = (session: SessionState, delay: number, fn: () => void) => {
+    if (session.closed) return;
+    const timer = setTimeout(() => {
+      session.timers.delete(timer);
+      if (!session.closed) fn();
+    }, delay);
+    session.timers.add(timer);
+  };
+
+  const end = (device: Device, session: SessionState, reason: 'remote' | 'error', error?: string) => {
+    if (session.closed) return;
+    stop(device, session);
+    session.sink.close(reason, reason === 'error' ? (error ?? SIMULATED_ERROR) : error);
+  };
+
+  const stop = (device: Device, session: SessionState) => {
+    session.closed = true;
+    for (const timer of session.timers) clearTimeout(timer);
+    session.timers.clear();
+    device.sessions.delete(session);
+  };
+
+  const find = (host: string, port: number) => {
+    const target = host.toLowerCase();
+    return [...devices]
+      .reverse()
+      .find((d) => (d.host === undefined || d.host === target) && (d.port === undefined || d.port === port));
+  };
+
+  const respond = (device: Device, session: SessionState, request: number[]) => {
+    const responder = device.responders.find(
+      (r) => r.remaining > 0 && (r.patterns.length === 0 || findExpectMatch(request, request.length, r.patterns)),
+    );
+    if (!responder) return;
+    responder.remaining--;
+    schedule(session, responder.delay, () => {
+      const reply = typeof responder.reply === 'function' ? responder.reply(request) : responder.reply;
+      const bytes = fakePayloadBytes(reply);
+      if (bytes && bytes.length > 0) session.sink.data(bytes);
+      if (responder.disconnect) end(device, session, responder.disconnect);
+    });
+  };
+
+  const startPush = (session: SessionState, push: TcpFakePush, bytes: number[]) => {
+    const send = () => {
+      session.sink.data(bytes);
+      if (push.every != null && push.every > 0) schedule(session, push.every, send);
+    };
+    schedule(session, push.after ?? 0, send);
+  };
+
+  return {
+    register(options) {
+      const responders: Responder[] = [];
+      for (const responder of options.responders ?? []) {
+        const patterns = responder.match == null ? [] : parseExpectPatterns(fromExpectOption(responder.match));
+        if (!patterns) throw new Error('invalid fake device responder match');
+        if (typeof responder.reply !== 'function' && !fakePayloadBytes(responder.reply)) {
+          throw new Error('invalid fake device responder reply');
+        }
+        responders.push({
+          patterns,
+          reply: responder.reply,
+          delay: nonNegative(responder.delay, 0),
+          remaining: responder.times != null && responder.times >= 0 ? responder.times : Infinity,
+          disconnect: responder.disconnect,
+        });
+      }
+      for (const push of options.pushes ?? []) {
+        if (!fakePayloadBytes(push.data)) throw new Error('invalid fake device push data');
+      }
+      const device: Device = {
+        host: options.host?.toLowerCase(),
+        port: options.port,
+        options,
+        responders,
+        sessions: new Set(),
+        writes: [],
+      };
+      devices.push(device);
+
+      return {
+        push(data) {
+          const bytes = fakePayloadBytes(data);
+          if (!bytes) throw new Error('invalid fake device push data');
+          for (const session of [...device.sessions]) session.sink.data(bytes);
+        },
+        disconnect(reason = 'remote', error) {
+          for (const session of [...device.sessions]) end(device, session, reason, error);
+        },
+        writes: () => device.writes.map((w) => [...w]),
+        remove() {
+          const index = devices.indexOf(device);
+          if (index !== -1) devices.splice(index, 1);
+          for (const session of [...device.sessions]) end(device, session, 'remote');
+        },
+      };
+    },
+
+    async open(host, port, sink) {
+      const device = find(host, port);
+      if (!device) return { write: () => undefined, close: () => undefined };
+
+      const { options } = device;
+      const connectDelay = nonNegative(options.connectDelay, 0);
+      if (connectDelay > 0) await new Promise((resolve) => setTimeout(resolve, connectDelay));
+      if (options.refuseConnect) return options.refuseConnect;
+
+      const session: SessionState = { sink, timers: new Set(), closed: false };
+      device.sessions.add(session);
+      for (const push of options.pushes ?? []) startPush(session, push, fakePayloadBytes(push.data) as number[]);
+      if (options.disconnectAfter != null) {
+        schedule(session, nonNegative(options.disconnectAfter, 0), () =>
+          end(device, session, options.disconnectReason ?? 'remote'),
+        );
+      }
+      return {
+        write: (bytes) => {
+          if (session.closed) return;
+          device.writes.push([...bytes]);
+          respond(device, session, bytes);
+        },
+        close: () => stop(device, session),
+      };
+    },
+
+    matches(host, port) {
+      return find(host, port) !== undefined;
+    },
+  };
+}
+
+function nonNegative(value: number | undefined, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/** Devices shared by TCPClient.registerFakeDevice() and the web platform. */
+export const fakeDevices = createFakeDeviceRegistry();
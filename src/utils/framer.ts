@@ -0,0 +1,208 @@
+// src/utils/framer.ts
+
+import type { TcpFramerOptions, TcpLengthFieldOptions } from '../definitions';
+
+import { parseExpectBytes } from './expect';
+
+/** Upper bound for a single reassembled frame, matching the native/Electron buffer cap. */
+export const MAX_FRAME_BYTES = 16 * 1024 * 1024;
+
+/**
+ * Incremental message framer fed with raw stream chunks.
+ * push() returns the frames completed by that chunk (possibly none) in arrival order.
+ */
+export interface Framer {
+  push(chunk: ArrayLike<number>): Uint8Array[];
+  /** Drop any partially buffered frame. */
+  reset(): void;
+}
+
+/** Normalized length-field settings shared by the length-prefixed framer and RR. */
+export interface LengthFieldSpec {
+  offset: number;
+  size: 1 | 2 | 4;
+  littleEndian: boolean;
+  adjustment: number;
+  includesHeader: boolean;
+}
+
+/**
+ * Validate length-field options and apply defaults.
+ * Returns null on invalid input.
+ *
+ * Defaults: offset 0, size 2, big-endian, adjustment 0, header not counted.
+ */
+export function parseLengthField(options: TcpLengthFieldOptions | null | undefined): LengthFieldSpec | null {
+  if (!options || typeof options !== 'object') return null;
+  const offset = options.offset ?? 0;
+  const size = options.size ?? 2;
+  const adjustment = options.adjustment ?? 0;
+  if (!Number.isInteger(offset) || offset < 0 || offset > MAX_FRAME_BYTES) return null;
+  if (size !== 1 && size !== 2 && size !== 4) return null;
+  if (!Number.isInteger(adjustment) || Math.abs(adjustment) > MAX_FRAME_BYTES) return null;
+  if (options.endian != null && options.endian !== 'big' && options.endian !== 'little') return null;
+  return {
+    offset,
+    size,
+    littleEndian: options.endian === 'little',
+    adjustment,
+    includesHeader: !!options.includesHeader,
+  };
+}
+
+/**
+ * Total frame length announced by the header at the start of `buf`.
+ * Returns undefined while the header is incomplete and -1 when the announced
+ * length is impossible (shorter than the header itself).
+ */
+export function lengthFieldFrameSize(spec: LengthFieldSpec, buf: ArrayLike<number>, used: number): number | undefined {
+  const header = spec.offset + spec.size;
+  if (used < header) return undefined;
+  let declared = 0;
+  for (let i = 0; i < spec.size; i++) {
+    const b = buf[spec.offset + (spec.littleEndian ? spec.size - 1 - i : i)];
+    declared = declared * 256 + b;
+  }
+  const total = (spec.includesHeader ? 0 : header) + declared + spec.adjustment;
+  return total < header ? -1 : total;
+}
+
+/**
+ * Build a framer from public options.
+ * Returns null on invalid options (unknown type, empty delimiter, bad sizes).
+ */
+export function createFramer(options: TcpFramerOptions | null | undefined): Framer | null {
+  if (!options || typeof options !== 'object') return null;
+  const maxFrameBytes = options.maxFrameBytes ?? MAX_FRAME_BYTES;
+  if (!Number.isInteger(maxFrameBytes) || maxFrameBytes < 1 || maxFrameBytes > MAX_FRAME_BYTES) return null;
+
+  switch (options.type) {
+    case 'delimiter': {
+      const raw = options.delimiter;
+      const delimiter = parseExpectBytes(typeof raw === 'string' ? raw : Array.from(raw ?? []));
+      // delimiters are exact; wildcard patterns are an expect-only feature
+      if (!delimiter || delimiter.mask) return null;
+      return new DelimiterFramer(delimiter.bytes, !!options.includeDelimiter, maxFrameBytes);
+    }
+    case 'fixed': {
+      const length = options.length;
+      if (!Number.isInteger(length) || length < 1 || length > maxFrameBytes) return null;
+      return new ByteFramer((_buf, used) => (used >= length ? length : undefined), maxFrameBytes);
+    }
+    case 'length': {
+      const spec = parseLengthField(options);
+      if (!spec) return null;
+      return new ByteFramer((buf, used) => lengthFieldFrameSize(spec, buf, used), maxFrameBytes);
+    }
+    default:
+      return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Implementations
+// ---------------------------------------------------------------------------
+
+/** Growable byte buffer that complete frames are cut from the front of. */
+class ByteBuffer {
+  buf = new Uint8Array(0);
+  used = 0;
+
+  append(chunk: ArrayLike<number>) {
+    if (this.used + chunk.length > this.buf.length) {
+      const next = new Uint8Array(Math.max(this.used + chunk.length, this.buf.length * 2, 256));
+      next.set(this.buf.subarray(0, this.used));
+      this.buf = next;
+    }
+    this.buf.set(chunk, this.used);
+    this.used += chunk.length;
+  }
+
+  /** Remove `count` bytes from the front and return them as a fresh array. */
+  take(count: number): Uint8Array {
+    const out = this.buf.slice(0, count);
+    this.buf.copyWithin(0, count, this.used);
+    this.used -= count;
+    return out;
+  }
+
+  clear() {
+    this.buf = new Uint8Array(0);
+    this.used = 0;
+  }
+}
+
+class DelimiterFramer implements Framer {
+  private readonly acc = new ByteBuffer();
+  private scanFrom = 0;
+
+  constructor(
+    private readonly delimiter: Uint8Array,
+    private readonly includeDelimiter: boolean,
+    private readonly maxFrameBytes: number,
+  ) {}
+
+  push(chunk: ArrayLike<number>): Uint8Array[] {
+    const frames: Uint8Array[] = [];
+    this.acc.append(chunk);
+    for (;;) {
+      const at = indexOf(this.acc.buf, this.acc.used, this.delimiter, this.scanFrom);
+      if (at < 0) break;
+      const frame = this.acc.take(at + this.delimiter.length);
+      frames.push(this.includeDelimiter ? frame : frame.subarray(0, at));
+      this.scanFrom = 0;
+    }
+    // Resume the next search just before the tail so a delimiter split across chunks is found.
+    this.scanFrom = Math.max(0, this.acc.used - this.delimiter.length + 1);
+    // A frame that outgrows the limit can never complete; discard it rather than buffer forever.
+    if (this.acc.used > this.maxFrameBytes) this.reset();
+    return frames;
+  }
+
+  reset() {
+    this.acc.clear();
+    this.scanFrom = 0;
+  }
+}
+
+/** Framer for formats where the frame size is known from the buffered prefix (fixed length, length field). */
+class ByteFramer implements Framer {
+  private readonly acc = new ByteBuffer();
+
+  constructor(
+    private readonly frameSize: (buf: Uint8Array, used: number) => number | undefined,
+    private readonly maxFrameBytes: number,
+  ) {}
+
+  push(chunk: ArrayLike<number>): Uint8Array[] {
+    const frames: Uint8Array[] = [];
+    this.acc.append(chunk);
+    for (;;) {
+      const size = this.frameSize(this.acc.buf, this.acc.used);
+      if (size === undefined) break;
+      // An invalid or oversized header means the stream is out of sync; there is no safe resync point.
+      if (size < 0 || size > this.maxFrameBytes) {
+        this.reset();
+        break;
+      }
+      if (this.acc.used < size) break;
+      frames.push(this.acc.take(size));
+    }
+    return frames;
+  }
+
+  reset() {
+    this.acc.clear();
+  }
+}
+
+function indexOf(haystack: Uint8Array, length: number, needle: Uint8Array, from: number): number {
+  const last = length - needle.length;
+  outer: for (let i = from; i <= last; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
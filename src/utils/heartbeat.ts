@@ -0,0 +1,44 @@
+// src/utils/heartbeat.ts
+
+import type { TcpExpectPattern, TcpHeartbeatOptions } from '../definitions';
+
+import { fromExpectOption, parseExpectPatterns } from './expect';
+import { numberIn } from './range';
+
+/** Heartbeat settings with defaults applied. */
+export interface HeartbeatPolicy {
+  data: number[];
+  /** Passed to writeAndRead as-is; undefined when any reply counts. */
+  expect?: TcpExpectPattern | TcpExpectPattern[];
+  interval: number;
+  timeout: number;
+  maxMisses: number;
+}
+
+const MAX_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Validate the createConnection() `heartbeat` option.
+ * Returns null when `data` is not a non-empty byte payload or `expect` is invalid;
+ * invalid numbers fall back to the defaults.
+ *
+ * Defaults: every 5000 ms, 1000 ms reply timeout, teardown after 3 misses in a row.
+ */
+export function parseHeartbeatPolicy(options: TcpHeartbeatOptions): HeartbeatPolicy | null {
+  if (!options || typeof options !== 'object' || options.data == null) return null;
+  const data = Array.from(options.data as ArrayLike<number>);
+  if (data.length === 0 || data.some((value) => !Number.isInteger(value) || value < 0 || value > 255)) return null;
+
+  const patterns = options.expect == null ? [] : parseExpectPatterns(fromExpectOption(options.expect));
+  if (!patterns) return null;
+
+  const interval = numberIn(options.interval, 5000, 100, MAX_INTERVAL_MS);
+  return {
+    data,
+    expect: patterns.length > 0 ? options.expect : undefined,
+    interval,
+    timeout: numberIn(options.timeout, Math.min(1000, interval), 1, interval),
+    maxMisses:
+      Number.isInteger(options.maxMisses) && (options.maxMisses as number) >= 1 ? (options.maxMisses as number) : 3,
+  };
+}
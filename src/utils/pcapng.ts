@@ -0,0 +1,293 @@
+// src/utils/pcapng.ts
+
+import type { TcpTraceEntry } from '../definitions';
+
+/** Socket endpoints used for the synthetic headers; missing values fall back to placeholders. */
+export interface PcapEndpoints {
+  localAddress?: string;
+  localPort?: number;
+  remoteAddress?: string;
+  remotePort?: number;
+}
+
+interface Endpoint {
+  mac: number[];
+  ip: number[];
+  port: number;
+}
+
+interface Packet {
+  timestamp: number;
+  fromLocal: boolean;
+  flags: number;
+  payload: ArrayLike<number>;
+  /** Payload bytes on the wire; more than payload.length when the trace truncated them. */
+  payloadLength: number;
+  comment?: string;
+}
+
+// RFC 5737 documentation addresses, used when the platform did not report real ones.
+const PLACEHOLDER_LOCAL = [192, 0, 2, 1];
+const PLACEHOLDER_REMOTE = [192, 0, 2, 2];
+const PLACEHOLDER_LOCAL_PORT = 49152;
+const PLACEHOLDER_REMOTE_PORT = 9100;
+
+const LOCAL_MAC = [0x02, 0, 0, 0, 0, 0x01];
+const REMOTE_MAC = [0x02, 0, 0, 0, 0, 0x02];
+const LOCAL_ISN = 0x10000000;
+const REMOTE_ISN = 0x20000000;
+
+const TCP_SYN = 0x02;
+const TCP_PSH = 0x08;
+const TCP_ACK = 0x10;
+
+// Largest TCP payload that fits the 16-bit IPv4 total length with 20-byte IP and TCP headers.
+const MAX_SEGMENT = 65535 - 40;
+
+/**
+ * Build a pcapng capture (one Ethernet interface, microsecond timestamps) from trace entries.
+ *
+ * The session is rebuilt as a single TCP stream: a synthetic handshake before the first entry,
+ * then one segment per entry ('tx' from the local endpoint, 'rx' from the remote one).
+ * Transfers larger than 64 KiB are split. Truncated entries keep their original length so
+ * Wireshark shows them as cut short. Entries with an error carry it as a packet comment;
+ * an empty one becomes a bare ACK. TCP checksums are left at zero.
+ */
+export function buildPcapng(entries: TcpTraceEntry[], endpoints: PcapEndpoints): Uint8Array {
+  const [local, remote] = resolveEndpoints(endpoints);
+  const blocks: Uint8Array[] = [sectionHeader(), interfaceDescription()];
+
+  const packets: Packet[] = [];
+  if (entries.length > 0) {
+    const start = entries[0].timestamp;
+    packets.push(
+      { timestamp: start, fromLocal: true, flags: TCP_SYN, payload: [], payloadLength: 0 },
+      { timestamp: start, fromLocal: false, flags: TCP_SYN | TCP_ACK, payload: [], payloadLength: 0 },
+      { timestamp: start, fromLocal: true, flags: TCP_ACK, payload: [], payloadLength: 0 },
+    );
+  }
+  for (const entry of entries) {
+    const fromLocal = entry.direction === 'tx';
+    const { timestamp, error } = entry;
+    if (entry.length === 0) {
+      if (error) packets.push({ timestamp, fromLocal, flags: TCP_ACK, payload: [], payloadLength: 0, comment: error });
+      continue;
+    }
+    for (let offset = 0; offset < entry.length; offset += MAX_SEGMENT) {
+      const payloadLength = Math.min(MAX_SEGMENT, entry.length - offset);
+      packets.push({
+        timestamp,
+        fromLocal,
+        flags: TCP_PSH | TCP_ACK,
+        payload: entry.data.slice(offset, offset + payloadLength),
+        payloadLength,
+        comment: offset === 0 ? error : undefined,
+      });
+    }
+  }
+
+  // Sequence numbers: a SYN counts as one byte, payload by its original length.
+  let localSeq = LOCAL_ISN;
+  let remoteSeq = REMOTE_ISN;
+  let ipId = 1;
+  for (const packet of packets) {
+    const [src, dst] = packet.fromLocal ? [local, remote] : [remote, local];
+    const seq = packet.fromLocal ? localSeq : remoteSeq;
+    const ack = packet.flags === TCP_SYN ? 0 : packet.fromLocal ? remoteSeq : localSeq;
+    const advance = packet.payloadLength + (packet.flags & TCP_SYN ? 1 : 0);
+    if (packet.fromLocal) localSeq = (localSeq + advance) >>> 0;
+    else remoteSeq = (remoteSeq + advance) >>> 0;
+
+    const frame = ethernetFrame(src, dst, { seq, ack, flags: packet.flags }, packet, ipId);
+    ipId = (ipId + 1) & 0xffff;
+    blocks.push(enhancedPacket(packet.timestamp, frame.bytes, frame.originalLength, packet.comment));
+  }
+  return concat(blocks);
+}
+
+/** Parse an IPv4 or IPv6 literal into 4 or 16 bytes; IPv4-mapped IPv6 yields 4 bytes. */
+export function parseIpAddress(value: string | undefined): number[] | null {
+  if (!value) return null;
+  const v4 = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/.exec(value);
+  if (v4) {
+    const bytes = v4.slice(1).map(Number);
+    return bytes.every((b) => b <= 255) ? bytes : null;
+  }
+  const address = value.replace(/%.*$/, '').toLowerCase();
+  if (!/^[0-9a-f:.]+$/.test(address) || address.split('::').length > 2) return null;
+
+  let tail: number[] = [];
+  let text = address;
+  const embedded = /:(\d{1,3}(?:\.\d{1,3}){3})$/.exec(address);
+  if (embedded) {
+    const v4tail = parseIpAddress(embedded[1]);
+    if (!v4tail) return null;
+    tail = v4tail;
+    text = address.slice(0, embedded.index + 1) + '0:0';
+  }
+  const [head, rest] = text.split('::');
+  const groups = (part: string | undefined) => (part ? part.split(':') : []);
+  const left = groups(head);
+  const right = groups(rest);
+  const missing = 8 - left.length - right.length;
+  if (rest === undefined ? missing !== 0 : missing < 1) return null;
+  const words = [...left, ...new Array<string>(rest === undefined ? 0 : missing).fill('0'), ...right];
+  if (words.some((w) => !/^[0-9a-f]{1,4}$/.test(w))) return null;
+  const bytes: number[] = [];
+  for (const word of words) bytes.push(parseInt(word, 16) >> 8, parseInt(word, 16) & 0xff);
+  if (embedded) bytes.splice(12, 4, ...tail);
+  const mapped = bytes.slice(0, 10).every((b) => b === 0) && bytes[10] === 0xff && bytes[11] === 0xff;
+  return mapped ? bytes.slice(12) : bytes;
+}
+
+function resolveEndpoints(endpoints: PcapEndpoints): [Endpoint, Endpoint] {
+  let localIp = parseIpAddress(endpoints.localAddress);
+  let remoteIp = parseIpAddress(endpoints.remoteAddress);
+  // Both ends must share one IP version; otherwise fall back to IPv4 placeholders.
+  if (!localIp || !remoteIp || localIp.length !== remoteIp.length) {
+    if (localIp?.length !== 4) localIp = PLACEHOLDER_LOCAL;
+    if (remoteIp?.length !== 4) remoteIp = PLACEHOLDER_REMOTE;
+  }
+  return [
+    { mac: LOCAL_MAC, ip: localIp, port: validPort(endpoints.localPort, PLACEHOLDER_LOCAL_PORT) },
+    { mac: REMOTE_MAC, ip: remoteIp, port: validPort(endpoints.remotePort, PLACEHOLDER_REMOTE_PORT) },
+  ];
+}
+
+function validPort(value: number | undefined, fallback: number): number {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 65535 ? (value as number) : fallback;
+}
+
+function ethernetFrame(
+  src: Endpoint,
+  dst: Endpoint,
+  tcp: { seq: number; ack: number; flags: number },
+  packet: Packet,
+  ipId: number,
+): { bytes: Uint8Array; originalLength: number } {
+  const ipv6 = src.ip.length === 16;
+  const ipHeader = ipv6 ? 40 : 20;
+  const headers = 14 + ipHeader + 20;
+  const bytes = new Uint8Array(headers + packet.payload.length);
+  const view = new DataView(bytes.buffer);
+
+  bytes.set(dst.mac, 0);
+  bytes.set(src.mac, 6);
+  view.setUint16(12, ipv6 ? 0x86dd : 0x0800);
+
+  const ip = 14;
+  if (ipv6) {
+    view.setUint32(ip, 0x60000000);
+    view.setUint16(ip + 4, 20 + packet.payloadLength);
+    bytes[ip + 6] = 6; // next header: TCP
+    bytes[ip + 7] = 64; // hop limit
+    bytes.set(src.ip, ip + 8);
+    bytes.set(dst.ip, ip + 24);
+  } else {
+    bytes[ip] = 0x45;
+    view.setUint16(ip + 2, 20 + 20 + packet.payloadLength);
+    view.setUint16(ip + 4, ipId);
+    view.setUint16(ip + 6, 0x4000); // don't fragment
+    bytes[ip + 8] = 64; // TTL
+    bytes[ip + 9] = 6; // protocol: TCP
+    bytes.set(src.ip, ip + 12);
+    bytes.set(dst.ip, ip + 16);
+    view.setUint16(ip + 10, ipv4Checksum(bytes.subarray(ip, ip + 20)));
+  }
+
+  const th = ip + ipHeader;
+  view.setUint16(th, src.port);
+  view.setUint16(th + 2, dst.port);
+  view.setUint32(th + 4, tcp.seq);
+  view.setUint32(th + 8, tcp.ack);
+  bytes[th + 12] = 5 << 4; // data offset: 5 words
+  bytes[th + 13] = tcp.flags;
+  view.setUint16(th + 14, 0xffff); // window
+
+  bytes.set(Array.from(packet.payload), headers);
+  return { bytes, originalLength: headers + packet.payloadLength };
+}
+
+function ipv4Checksum(header: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < header.length; i += 2) sum += (header[i] << 8) | header[i + 1];
+  while (sum > 0xffff) sum = (sum & 0xffff) + (sum >>> 16);
+  return ~sum & 0xffff;
+}
+
+/* ---- pcapng blocks (little-endian) ---- */
+
+function sectionHeader(): Uint8Array {
+  const body = new Uint8Array(16);
+  const view = new DataView(body.buffer);
+  view.setUint32(0, 0x1a2b3c4d, true); // byte-order magic
+  view.setUint16(4, 1, true); // major version
+  view.setUint16(6, 0, true); // minor version
+  view.setInt32(8, -1, true); // section length: unspecified
+  view.setInt32(12, -1, true);
+  return block(0x0a0d0d0a, body);
+}
+
+function interfaceDescription(): Uint8Array {
+  const body = new Uint8Array(8);
+  const view = new DataView(body.buffer);
+  view.setUint16(0, 1, true); // LINKTYPE_ETHERNET
+  view.setUint32(4, 0, true); // no snap length
+  return block(0x00000001, body);
+}
+
+function enhancedPacket(timestamp: number, frame: Uint8Array, originalLength: number, comment?: string): Uint8Array {
+  const data = pad4(frame);
+  const options = comment ? commentOption(comment) : new Uint8Array(0);
+  const body = new Uint8Array(20 + data.length + options.length);
+  const view = new DataView(body.buffer);
+  const micros = Math.round(timestamp * 1000);
+  view.setUint32(0, 0, true); // interface id
+  view.setUint32(4, Math.floor(micros / 0x100000000), true);
+  view.setUint32(8, micros % 0x100000000, true);
+  view.setUint32(12, frame.length, true);
+  view.setUint32(16, originalLength, true);
+  body.set(data, 20);
+  body.set(options, 20 + data.length);
+  return block(0x00000006, body);
+}
+
+// opt_comment followed by opt_endofopt
+function commentOption(comment: string): Uint8Array {
+  const text = new TextEncoder().encode(comment).subarray(0, 0xffff);
+  const value = pad4(text);
+  const out = new Uint8Array(4 + value.length + 4);
+  const view = new DataView(out.buffer);
+  view.setUint16(0, 1, true);
+  view.setUint16(2, text.length, true);
+  out.set(value, 4);
+  return out;
+}
+
+function block(type: number, body: Uint8Array): Uint8Array {
+  const total = 12 + body.length;
+  const out = new Uint8Array(total);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, type, true);
+  view.setUint32(4, total, true);
+  out.set(body, 8);
+  view.setUint32(total - 4, total, true);
+  return out;
+}
+
+function pad4(bytes: Uint8Array): Uint8Array {
+  if (bytes.length % 4 === 0) return bytes;
+  const out = new Uint8Array(bytes.length + 4 - (bytes.length % 4));
+  out.set(bytes);
+  return out;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
@@ -0,0 +1,87 @@
+// src/utils/queue.ts
+
+import type { TcpQueueOptions } from '../definitions';
+
+/**
+ * Serializes async operations: one runs at a time, higher priority first,
+ * FIFO within the same priority.
+ */
+export interface OperationQueue {
+  /**
+   * Run `task` once every earlier (or higher priority) operation has settled.
+   * If it is still waiting after `queueTimeout` ms, it is dropped and the promise
+   * resolves with `onTimeout()` instead.
+   */
+  run<T>(task: () => Promise<T>, options: TcpQueueOptions, onTimeout: () => T): Promise<T>;
+  /** Operations waiting to start (the running one is not counted). */
+  readonly length: number;
+  /** True when nothing is running or waiting. */
+  readonly idle: boolean;
+}
+
+interface Entry {
+  priority: number;
+  start(): void;
+}
+
+export function createOperationQueue(): OperationQueue {
+  const waiting: Entry[] = [];
+  let running = false;
+
+  const pump = () => {
+    if (running) return;
+    const entry = waiting.shift();
+    if (!entry) return;
+    running = true;
+    entry.start();
+  };
+
+  const settled = () => {
+    running = false;
+    pump();
+  };
+
+  return {
+    run<T>(task: () => Promise<T>, options: TcpQueueOptions, onTimeout: () => T): Promise<T> {
+      const priority = Number.isFinite(options.priority) ? (options.priority as number) : 0;
+      const queueTimeout = options.queueTimeout;
+      return new Promise<T>((resolve, reject) => {
+        let timer: ReturnType<typeof setTimeout> | null = null;
+        const entry: Entry = {
+          priority,
+          start: () => {
+            if (timer) clearTimeout(timer);
+            let result: Promise<T>;
+            try {
+              result = task();
+            } catch (error) {
+              result = Promise.reject(error);
+            }
+            result.then(resolve, reject).finally(settled);
+          },
+        };
+
+        // Insert after every entry with the same or higher priority.
+        const index = waiting.findIndex((other) => other.priority < priority);
+        if (index === -1) waiting.push(entry);
+        else waiting.splice(index, 0, entry);
+
+        if (queueTimeout != null && Number.isFinite(queueTimeout) && queueTimeout > 0) {
+          timer = setTimeout(() => {
+            const position = waiting.indexOf(entry);
+            if (position === -1) return;
+            waiting.splice(position, 1);
+            resolve(onTimeout());
+          }, queueTimeout);
+        }
+        pump();
+      });
+    },
+    get length() {
+      return waiting.length;
+    },
+    get idle() {
+      return !running && waiting.length === 0;
+    },
+  };
+}
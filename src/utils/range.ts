@@ -0,0 +1,11 @@
+// src/utils/range.ts
+
+/** `value` when it is a finite number within [min, max], otherwise `fallback`. */
+export function numberIn(value: number | undefined, fallback: number, min: number, max: number): number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max ? value : fallback;
+}
+
+/** Like numberIn(), but `value` must also be an integer. */
+export function integerIn(value: number | undefined, fallback: number, min: number, max: number): number {
+  return Number.isInteger(value) ? numberIn(value, fallback, min, max) : fallback;
+}
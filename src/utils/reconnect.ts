@@ -0,0 +1,52 @@
+// src/utils/reconnect.ts
+
+import type { TcpReconnectOptions } from '../definitions';
+
+import { numberIn } from './range';
+
+/** Reconnect settings with defaults applied. */
+export interface ReconnectPolicy {
+  /** 0 means unlimited. */
+  maxAttempts: number;
+  initialDelay: number;
+  maxDelay: number;
+  factor: number;
+  /** Fraction of the delay that is randomized, 0..1. */
+  jitter: number;
+  restoreRead: boolean;
+}
+
+const MAX_DELAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Normalize the createConnection() `reconnect` option.
+ * Returns null when reconnecting is off; invalid numbers fall back to the defaults.
+ *
+ * Defaults: 5 attempts, 500 ms initial delay doubling up to 30 s, 20% jitter, restore the reader.
+ */
+export function parseReconnectPolicy(
+  options: boolean | TcpReconnectOptions | null | undefined,
+): ReconnectPolicy | null {
+  if (!options) return null;
+  const value = options === true ? {} : options;
+  const initialDelay = numberIn(value.initialDelay, 500, 0, MAX_DELAY_MS);
+  return {
+    maxAttempts:
+      Number.isInteger(value.maxAttempts) && (value.maxAttempts as number) >= 0 ? (value.maxAttempts as number) : 5,
+    initialDelay,
+    maxDelay: Math.max(initialDelay, numberIn(value.maxDelay, 30_000, 0, MAX_DELAY_MS)),
+    factor: numberIn(value.factor, 2, 1, 100),
+    jitter: numberIn(value.jitter, 0.2, 0, 1),
+    restoreRead: value.restoreRead !== false,
+  };
+}
+
+/**
+ * Delay before reconnect attempt `attempt` (1-based): exponential backoff capped at maxDelay,
+ * then spread by ±jitter.
+ */
+export function reconnectDelay(policy: ReconnectPolicy, attempt: number, random: () => number = Math.random): number {
+  const base = Math.min(policy.maxDelay, policy.initialDelay * Math.pow(policy.factor, Math.max(0, attempt - 1)));
+  const spread = base * policy.jitter * (random() * 2 - 1);
+  return Math.max(0, Math.round(base + spread));
+}
@@ -0,0 +1,140 @@
+// src/utils/stats.ts
+
+import type { TcpLatencyStats, TcpStats } from '../definitions';
+
+const MAX_SAMPLES = 1000;
+const RATE_WINDOW_S = 10;
+
+type Counters = Omit<TcpStats, 'latency' | 'firstByteLatency' | 'streamBytesPerSecond'>;
+
+/** Per-connection statistics, fed by the connection wrapper. */
+export interface StatsCollector {
+  write(result: { error: boolean; bytesSent: number }): void;
+  /** `hasRule` is true when the request set `expect` or `lengthField`. */
+  request(
+    result: { error: boolean; errorMessage?: string | null; matched: boolean; firstByteMs?: number },
+    elapsedMs: number,
+    hasRule: boolean,
+  ): void;
+  stream(byteCount: number): void;
+  reconnectAttempt(): void;
+  reconnected(): void;
+  snapshot(): TcpStats;
+  /** Raw state for aggregation across connections. */
+  parts(): StatsParts;
+}
+
+export interface StatsParts {
+  counters: Counters;
+  latency: number[];
+  firstByte: number[];
+  /** Stream bytes per whole second (epoch seconds) inside the rate window. */
+  buckets: Map<number, number>;
+}
+
+export function createStatsCollector(now: () => number = Date.now): StatsCollector {
+  const counters: Counters = {
+    since: now(),
+    writes: 0,
+    writeBytes: 0,
+    requests: 0,
+    requestTimeouts: 0,
+    requestErrors: 0,
+    matched: 0,
+    unmatched: 0,
+    streamBytes: 0,
+    reconnectAttempts: 0,
+    reconnects: 0,
+  };
+  const latency: number[] = [];
+  const firstByte: number[] = [];
+  const buckets = new Map<number, number>();
+
+  const sample = (samples: number[], value: number) => {
+    samples.push(Math.max(0, value));
+    if (samples.length > MAX_SAMPLES) samples.shift();
+  };
+  const prune = () => {
+    const oldest = Math.floor(now() / 1000) - RATE_WINDOW_S;
+    for (const second of buckets.keys()) if (second <= oldest) buckets.delete(second);
+  };
+  const parts = (): StatsParts => {
+    prune();
+    return { counters, latency, firstByte, buckets };
+  };
+
+  return {
+    write(result) {
+      if (result.error) return;
+      counters.writes++;
+      counters.writeBytes += result.bytesSent;
+    },
+    request(result, elapsedMs, hasRule) {
+      counters.requests++;
+      if (result.error) {
+        if (/timeout$/.test(result.errorMessage ?? '')) counters.requestTimeouts++;
+        else counters.requestErrors++;
+        return;
+      }
+      if (result.matched) counters.matched++;
+      else if (hasRule) counters.unmatched++;
+      sample(latency, elapsedMs);
+      if (typeof result.firstByteMs === 'number') sample(firstByte, result.firstByteMs);
+    },
+    stream(byteCount) {
+      counters.streamBytes += byteCount;
+      const second = Math.floor(now() / 1000);
+      buckets.set(second, (buckets.get(second) ?? 0) + byteCount);
+      prune();
+    },
+    reconnectAttempt() {
+      counters.reconnectAttempts++;
+    },
+    reconnected() {
+      counters.reconnects++;
+    },
+    snapshot() {
+      return summarize([parts()], counters.since);
+    },
+    parts,
+  };
+}
+
+/**
+ * Combine the state of several collectors: counters and stream rates are summed, percentiles are
+ * computed over the samples of all of them. `since` is the earliest start, or `fallbackSince`.
+ */
+export function summarize(all: StatsParts[], fallbackSince: number): TcpStats {
+  const total: Counters = {
+    since: all.length ? Math.min(...all.map((p) => p.counters.since)) : fallbackSince,
+    writes: 0,
+    writeBytes: 0,
+    requests: 0,
+    requestTimeouts: 0,
+    requestErrors: 0,
+    matched: 0,
+    unmatched: 0,
+    streamBytes: 0,
+    reconnectAttempts: 0,
+    reconnects: 0,
+  };
+  let windowBytes = 0;
+  for (const { counters, buckets } of all) {
+    for (const key of Object.keys(total) as (keyof Counters)[]) if (key !== 'since') total[key] += counters[key];
+    for (const bytes of buckets.values()) windowBytes += bytes;
+  }
+  return {
+    ...total,
+    latency: percentiles(([] as number[]).concat(...all.map((p) => p.latency))),
+    firstByteLatency: percentiles(([] as number[]).concat(...all.map((p) => p.firstByte))),
+    streamBytesPerSecond: windowBytes / RATE_WINDOW_S,
+  };
+}
+
+/** Nearest-rank percentiles, or null without samples. */
+export function percentiles(samples: number[]): TcpLatencyStats | null {
+  if (samples.length === 0) return null;
+  const sorted = [...samples].sort((a, b) => a - b);
+  const rank = (p: number) => sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+  return { count: sorted.length, p50: rank(50), p90: rank(90), p99: rank(99), max: sorted[sorted.length - 1] };
+}
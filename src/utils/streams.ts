@@ -0,0 +1,68 @@
+// src/utils/streams.ts
+
+/**
+ * Push-to-pull adapter between tcpData events and async consumers
+ * (async iterators and ReadableStream pull sources).
+ *
+ * Chunks pushed before end()/fail() are still delivered; after that the queue
+ * ends or rejects once drained. Pushes after end()/fail() are ignored.
+ */
+export interface ChunkQueue {
+  push(chunk: Uint8Array): void;
+  /** Finish normally once buffered chunks are drained. */
+  end(): void;
+  /** Reject the next read with `error` once buffered chunks are drained. */
+  fail(error: Error): void;
+  next(): Promise<IteratorResult<Uint8Array, undefined>>;
+  /** Number of chunks waiting for a consumer. */
+  readonly size: number;
+}
+
+type Waiter = {
+  resolve: (result: IteratorResult<Uint8Array, undefined>) => void;
+  reject: (error: Error) => void;
+};
+
+export function createChunkQueue(): ChunkQueue {
+  const chunks: Uint8Array[] = [];
+  const waiters: Waiter[] = [];
+  let finished = false;
+  let failure: Error | null = null;
+
+  const settleWaiters = () => {
+    while (waiters.length > 0) {
+      const waiter = waiters.shift() as Waiter;
+      if (failure) waiter.reject(failure);
+      else waiter.resolve({ done: true, value: undefined });
+    }
+  };
+
+  return {
+    push(chunk) {
+      if (finished) return;
+      const waiter = waiters.shift();
+      if (waiter) waiter.resolve({ done: false, value: chunk });
+      else chunks.push(chunk);
+    },
+    end() {
+      if (finished) return;
+      finished = true;
+      settleWaiters();
+    },
+    fail(error) {
+      if (finished) return;
+      finished = true;
+      failure = error;
+      settleWaiters();
+    },
+    next() {
+      if (chunks.length > 0) return Promise.resolve({ done: false, value: chunks.shift() as Uint8Array });
+      if (failure) return Promise.reject(failure);
+      if (finished) return Promise.resolve({ done: true, value: undefined });
+      return new Promise((resolve, reject) => waiters.push({ resolve, reject }));
+    },
+    get size() {
+      return chunks.length;
+    },
+  };
+}
@@ -0,0 +1,89 @@
+// src/utils/text.ts
+
+import type { TcpLineEnding, TcpTextEncoding } from '../definitions';
+
+// Windows-1250 bytes 0x80..0xFF. Unassigned bytes map to the C1 control of the same value,
+// as in the WHATWG Encoding Standard.
+const WINDOWS_1250_HIGH =
+  '€\u0081‚\u0083„…†‡\u0088‰Š‹ŚŤŽŹ' +
+  '\u0090‘’“”•–—\u0098™š›śťžź' +
+  '\u00a0ˇ˘Ł¤Ą¦§¨©Ş«¬\u00ad®Ż' +
+  '°±˛ł´µ¶·¸ąş»Ľ˝ľż' +
+  'ŔÁÂĂÄĹĆÇČÉĘËĚÍÎĎ' +
+  'ĐŃŇÓÔŐÖ×ŘŮÚŰÜÝŢß' +
+  'ŕáâăäĺćçčéęëěíîď' +
+  'đńňóôőö÷řůúűüýţ˙';
+
+let windows1250Bytes: Map<string, number> | null = null;
+
+const LINE_ENDINGS: Record<TcpLineEnding, string> = { none: '', lf: '\n', crlf: '\r\n', cr: '\r' };
+
+/** Validate a text encoding option; undefined means 'utf-8'. Returns null on invalid input. */
+export function parseTextEncoding(value: unknown): TcpTextEncoding | null {
+  if (value == null) return 'utf-8';
+  return value === 'utf-8' || value === 'windows-1250' ? value : null;
+}
+
+/** Characters appended by a lineEnding option; undefined means 'none'. Returns null on invalid input. */
+export function lineEndingSuffix(value: unknown): string | null {
+  if (value == null) return '';
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LINE_ENDINGS, value)
+    ? LINE_ENDINGS[value as TcpLineEnding]
+    : null;
+}
+
+/**
+ * Encode `text`. Returns null when a character has no Windows-1250 byte;
+ * UTF-8 replaces lone surrogates with U+FFFD.
+ */
+export function encodeText(text: string, encoding: TcpTextEncoding): Uint8Array | null {
+  if (encoding === 'utf-8') return new TextEncoder().encode(text);
+  if (!windows1250Bytes) {
+    windows1250Bytes = new Map();
+    for (let i = 0; i < WINDOWS_1250_HIGH.length; i++) windows1250Bytes.set(WINDOWS_1250_HIGH[i], 0x80 + i);
+  }
+  const out = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    const byte = code < 0x80 ? code : windows1250Bytes.get(text[i]);
+    if (byte === undefined) return null;
+    out[i] = byte;
+  }
+  return out;
+}
+
+/**
+ * Decodes a byte stream chunk by chunk. A multi-byte character split across chunks is held
+ * back until its remaining bytes arrive; reset() drops it.
+ */
+export interface TextStreamDecoder {
+  readonly encoding: TcpTextEncoding;
+  push(bytes: ArrayLike<number>): string;
+  reset(): void;
+}
+
+export function createTextDecoder(encoding: TcpTextEncoding): TextStreamDecoder {
+  if (encoding === 'windows-1250') {
+    // Single-byte encoding: nothing to carry between chunks.
+    return {
+      encoding,
+      push: (bytes) => {
+        let text = '';
+        for (let i = 0; i < bytes.length; i++) {
+          const byte = bytes[i];
+          text += byte < 0x80 ? String.fromCharCode(byte) : WINDOWS_1250_HIGH[byte - 0x80];
+        }
+        return text;
+      },
+      reset: () => undefined,
+    };
+  }
+  let decoder = new TextDecoder('utf-8');
+  return {
+    encoding,
+    push: (bytes) => decoder.decode(bytes instanceof Uint8Array ? bytes : Uint8Array.from(bytes), { stream: true }),
+    reset: () => {
+      decoder = new TextDecoder('utf-8');
+    },
+  };
+}
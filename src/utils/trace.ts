@@ -0,0 +1,91 @@
+// src/utils/trace.ts
+
+import type { TcpTraceEntry, TcpTraceOptions } from '../definitions';
+
+import { integerIn } from './range';
+
+/** Trace settings with defaults applied. */
+export interface TracePolicy {
+  maxEntries: number;
+  maxBytesPerEntry: number;
+}
+
+const MAX_ENTRIES = 100_000;
+const MAX_BYTES_PER_ENTRY = 16 * 1024 * 1024;
+
+/**
+ * Normalize the createConnection() `trace` option.
+ * Returns null when tracing is off; invalid numbers fall back to the defaults.
+ *
+ * Defaults: keep the last 1000 entries, store up to 4096 bytes per entry.
+ */
+export function parseTracePolicy(options: boolean | TcpTraceOptions | null | undefined): TracePolicy | null {
+  if (!options) return null;
+  const value = options === true ? {} : options;
+  return {
+    maxEntries: integerIn(value.maxEntries, 1000, 1, MAX_ENTRIES),
+    maxBytesPerEntry: integerIn(value.maxBytesPerEntry, 4096, 1, MAX_BYTES_PER_ENTRY),
+  };
+}
+
+/** Bounded ring buffer of trace entries; the oldest entry is dropped once it is full. */
+export interface TraceBuffer {
+  /** Store `bytes` (truncated to maxBytesPerEntry) and return the stored entry. */
+  record(entry: Omit<TcpTraceEntry, 'data' | 'length'>, bytes: ArrayLike<number>): TcpTraceEntry;
+  /** Entries oldest first. */
+  entries(): TcpTraceEntry[];
+  clear(): void;
+}
+
+export function createTraceBuffer(policy: TracePolicy): TraceBuffer {
+  const ring: TcpTraceEntry[] = [];
+  let start = 0;
+
+  return {
+    record(entry, bytes) {
+      const stored: TcpTraceEntry = {
+        ...entry,
+        length: bytes.length,
+        data: Array.prototype.slice.call(bytes, 0, policy.maxBytesPerEntry) as number[],
+      };
+      if (ring.length < policy.maxEntries) {
+        ring.push(stored);
+      } else {
+        ring[start] = stored;
+        start = (start + 1) % policy.maxEntries;
+      }
+      return stored;
+    },
+    entries() {
+      return [...ring.slice(start), ...ring.slice(0, start)];
+    },
+    clear() {
+      ring.length = 0;
+      start = 0;
+    },
+  };
+}
+
+/**
+ * Human-readable transcript: one header line per entry followed by a classic hex dump
+ * (offset, 16 bytes in hex, printable ASCII).
+ *
+ *     2026-01-01T10:00:00.000Z TX write 4 bytes
+ *       0000  1b 40 0d 0a                                      .@..
+ */
+export function formatHexDump(entries: TcpTraceEntry[]): string {
+  const lines: string[] = [];
+  for (const entry of entries) {
+    let header = `${new Date(entry.timestamp).toISOString()} ${entry.direction.toUpperCase()} ${entry.operation} ${entry.length} bytes`;
+    if (entry.data.length < entry.length) header += ` (first ${entry.data.length} shown)`;
+    if (entry.error) header += ` error: ${entry.error}`;
+    lines.push(header);
+    for (let offset = 0; offset < entry.data.length; offset += 16) {
+      const row = entry.data.slice(offset, offset + 16);
+      const hex = row.map((byte) => byte.toString(16).padStart(2, '0')).join(' ');
+      const ascii = row.map((byte) => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.')).join('');
+      lines.push(`  ${offset.toString(16).padStart(4, '0')}  ${hex.padEnd(47)}  ${ascii}`);
+    }
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,101 @@
+// src/utils/ws-relay.ts
+
+import type { TcpWebRelayOptions } from '../definitions';
+
+import type { FakeDeviceSink, FakeSession } from './fake-device';
+
+/** Relay setting shared by TCPClient.setWebRelay() and the web platform. */
+export interface WebRelayConfig {
+  /** Throws on an invalid URL; null turns the relay off. */
+  configure(options: TcpWebRelayOptions | null): void;
+  /** Tunnel URL for one target, or null when no relay is configured. */
+  target(host: string, port: number, socket?: { noDelay?: boolean; keepAlive?: boolean }): string | null;
+}
+
+export function createWebRelayConfig(): WebRelayConfig {
+  let base: URL | null = null;
+  return {
+    configure(options) {
+      if (options == null) {
+        base = null;
+        return;
+      }
+      let url: URL | null = null;
+      try {
+        url = new URL(options.url);
+      } catch {
+        url = null;
+      }
+      if (!url || (url.protocol !== 'ws:' && url.protocol !== 'wss:')) throw new Error('invalid web relay url');
+      base = url;
+    },
+    target(host, port, socket = {}) {
+      if (!base) return null;
+      const url = new URL(base.href);
+      url.searchParams.set('host', host);
+      url.searchParams.set('port', String(port));
+      if (socket.noDelay === false) url.searchParams.set('nodelay', '0');
+      if (socket.keepAlive) url.searchParams.set('keepalive', '1');
+      return url.href;
+    },
+  };
+}
+
+/**
+ * Open a tunnel through the relay. Resolves once the relay reports the TCP connection open,
+ * or with an error message when the relay refuses or cannot reach the target (the browser
+ * does not expose the HTTP status, so the relay log has the details).
+ *
+ * Close codes map to disconnect reasons: 1000 (or no code) 'remote', anything else 'error'
+ * with the close reason as message.
+ */
+export function openRelaySession(url: string, sink: FakeDeviceSink): Promise<FakeSession | string> {
+  return new Promise((resolve) => {
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(url);
+    } catch (err) {
+      resolve(`connect failed: ${(err as Error).message}`);
+      return;
+    }
+    ws.binaryType = 'arraybuffer';
+    let open = false;
+    let closed = false;
+
+    ws.onopen = () => {
+      open = true;
+      resolve({
+        write: (bytes) => {
+          if (!closed) ws.send(new Uint8Array(bytes));
+        },
+        close: () => {
+          closed = true;
+          ws.close(1000);
+        },
+      });
+    };
+    ws.onmessage = (event: MessageEvent) => {
+      if (closed) return;
+      const data = event.data;
+      sink.data(
+        typeof data === 'string' ? Array.from(new TextEncoder().encode(data)) : Array.from(new Uint8Array(data)),
+      );
+    };
+    // a failed handshake fires error, then close; some runtimes never deliver the close
+    ws.onerror = () => {
+      if (!open) resolve('connect failed: relay refused the connection');
+    };
+    ws.onclose = (event: CloseEvent) => {
+      if (!open) {
+        resolve('connect failed: relay refused the connection');
+        return;
+      }
+      if (closed) return;
+      closed = true;
+      if (event.code === 1000 || event.code === 1005) sink.close('remote');
+      else sink.close('error', event.reason || `relay connection lost (${event.code})`);
+    };
+  });
+}
+
+export const webRelay = createWebRelayConfig();
@@ -1,4 +1,3 @@
-import type { PluginListenerHandle } from '@capacitor/core';
 import { WebPlugin } from '@capacitor/core';
 
 import type {
@@ -12,9 +11,26 @@ import type {
   TcpWriteResult,
   TcpWriteAndReadOptions,
   TcpWriteAndReadResult,
+  TcpReadOptions,
+  TcpReadResult,
   TcpStartReadOptions,
   TcpStartStopResult,
+  TcpUpgradeTlsResult,
+  TcpConnectionInfoResult,
+  TcpConnectionSummary,
 } from './definitions';
+import { fromExpectOption, findExpectMatch, parseExpectPatterns } from './utils/expect';
+import { fakeDevices, fakePayloadBytes } from './utils/fake-device';
+import type { FakeDeviceSink, FakeSession } from './utils/fake-device';
+import { lengthFieldFrameSize, parseLengthField } from './utils/framer';
+import { openRelaySession, webRelay } from './utils/ws-relay';
+
+/*
+ * Browser platform. Browsers cannot open TCP sockets, so a connection talks to the in-memory
+ * fake device registered for its host/port (TCPClient.registerFakeDevice()), otherwise to the
+ * WebSocket relay (TCPClient.setWebRelay()). With neither, it succeeds and stays silent.
+ * Results and events follow the native contract.
+ */
 
 type BaseResult = { error: boolean; errorMessage?: string | null };
 
@@ -22,79 +38,364 @@ function ok<T extends Record<string, unknown>>(extra: T = {} as T): BaseResult &
   return { error: false, errorMessage: null, ...extra };
 }
 
+function fail<T extends Record<string, unknown>>(errorMessage: string, extra: T): BaseResult & T {
+  return { error: true, errorMessage, ...extra };
+}
+
 function log(...a: unknown[]) {
   console.debug('[TCPClient]', ...a);
 }
 
+const DEFAULT_CHUNK_SIZE = 4096;
+const MAX_BUFFER_BYTES = 16 * 1024 * 1024;
+const MAX_TIMER_MS = 2_147_483_647;
+// Fixed until-idle window for replies without a completion rule
+const RR_IDLE_MS = 100;
+
+type Reply = {
+  bytesReceived: number;
+  data: number[];
+  matched: boolean;
+  matchedIndex: number;
+  matchOffset: number;
+  /** writeAndRead() only. */
+  firstByteMs?: number;
+};
+
+interface FakeConnection {
+  session: FakeSession | null;
+  host: string;
+  port: number;
+  /** Diagnostics for getConnectionInfo(); reset on every connect. */
+  connectedAt: number;
+  bytesRead: number;
+  bytesWritten: number;
+  connecting: boolean;
+  reading: boolean;
+  chunkSize: number;
+  readTimeout: number;
+  /** Bytes nobody consumed yet, like a socket receive buffer. */
+  inbox: number[];
+  /** Set while writeAndRead/read collects a reply. */
+  collector: { push(bytes: number[]): void; close(error?: string): void; suspendStream: boolean } | null;
+}
+
+function emptyReply(): Reply {
+  return { bytesReceived: 0, data: [], matched: false, matchedIndex: -1, matchOffset: -1 };
+}
+
+function positiveInt(value: unknown, fallback: number, max: number): number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= max ? value : fallback;
+}
+
 export class TCPClientWeb extends WebPlugin {
+  private conns = new Map<string, FakeConnection>();
+  private pendingReadTimeouts = new Map<string, number>();
+
+  private getOrCreate(connectionId: string): FakeConnection {
+    let st = this.conns.get(connectionId);
+    if (!st) {
+      st = {
+        session: null,
+        host: '',
+        port: 0,
+        connectedAt: 0,
+        bytesRead: 0,
+        bytesWritten: 0,
+        connecting: false,
+        reading: false,
+        chunkSize: DEFAULT_CHUNK_SIZE,
+        readTimeout: this.pendingReadTimeouts.get(connectionId) ?? 1000,
+        inbox: [],
+        collector: null,
+      };
+      this.pendingReadTimeouts.delete(connectionId);
+      this.conns.set(connectionId, st);
+    }
+    return st;
+  }
+
+  private emitData(connectionId: string, st: FakeConnection, bytes: number[]) {
+    for (let offset = 0; offset < bytes.length; offset += st.chunkSize) {
+      this.notifyListeners('tcpData', { connectionId, data: bytes.slice(offset, offset + st.chunkSize) });
+    }
+  }
+
+  private receive(connectionId: string, st: FakeConnection, bytes: number[]) {
+    st.bytesRead += bytes.length;
+    const collector = st.collector;
+    if (collector) collector.push(bytes);
+    if (st.reading && (!collector || !collector.suspendStream)) this.emitData(connectionId, st, bytes);
+    else if (!collector) st.inbox = st.inbox.concat(bytes.slice(0, MAX_BUFFER_BYTES - st.inbox.length));
+  }
+
+  private closed(connectionId: string, st: FakeConnection, reason: 'remote' | 'error', error?: string) {
+    st.session = null;
+    st.reading = false;
+    st.inbox = [];
+    st.collector?.close(error);
+    const event: Record<string, unknown> = { connectionId, disconnected: true, reading: false, reason };
+    if (error) event.error = error;
+    this.notifyListeners('tcpDisconnect', event);
+  }
+
   async connect(args: TcpConnectOptions & { connectionId: string }): Promise<TcpConnectResult> {
-    log('[connect]', args);
+    const { connectionId } = args;
+    log('[connect]', connectionId, args.host, args.port);
+    if (typeof args.host !== 'string' || !args.host.trim()) return fail('host is required', { connected: false });
+    const port = positiveInt(args.port, 9100, 65535);
+    if (args.port != null && port !== args.port) return fail('invalid port', { connected: false });
+    if (args.tls) return fail('tls is only supported on Electron', { connected: false });
+    if (args.proxy) return fail('proxy is only supported on Electron', { connected: false });
+    if (args.localAddress != null || args.localPort != null || (args.family != null && args.family !== 'auto')) {
+      return fail('localAddress, localPort and family are only supported on Electron', { connected: false });
+    }
+    const timeout = positiveInt(args.timeout, 3000, MAX_TIMER_MS);
+
+    await this.disconnect({ connectionId });
+    const st = this.getOrCreate(connectionId);
+    // Device callbacks for an attempt that timed out or was replaced must not reach the new state
+    const link = { active: true };
+    const host = args.host.trim();
+    st.host = host;
+    st.port = port;
+    const relayUrl = fakeDevices.matches(host, port) ? null : webRelay.target(host, port, args);
+    const sink: FakeDeviceSink = {
+      data: (bytes) => {
+        if (link.active) this.receive(connectionId, st, bytes);
+      },
+      close: (reason, error) => {
+        if (!link.active) return;
+        link.active = false;
+        this.closed(connectionId, st, reason, error);
+      },
+    };
+    const opened = relayUrl ? openRelaySession(relayUrl, sink) : fakeDevices.open(host, port, sink);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<string>((resolve) => {
+      timer = setTimeout(() => resolve('connect timeout'), timeout);
+    });
+    st.connecting = true;
+    const session = await Promise.race([opened, timedOut]);
+    st.connecting = false;
+    clearTimeout(timer);
+    if (typeof session === 'string') {
+      link.active = false;
+      void opened.then((late) => typeof late !== 'string' && late.close());
+      return fail(session, { connected: false });
+    }
+    st.session = session;
+    st.inbox = [];
+    st.connectedAt = Date.now();
+    st.bytesRead = 0;
+    st.bytesWritten = 0;
     return ok({ connected: true });
   }
 
   async disconnect(args: { connectionId: string }): Promise<TcpDisconnectResult> {
+    const st = this.conns.get(args.connectionId);
+    if (!st?.session) return ok({ disconnected: true, reading: false });
     log('[disconnect]', args.connectionId);
+    st.session.close();
+    st.session = null;
+    st.reading = false;
+    st.inbox = [];
+    st.collector?.close();
+    this.notifyListeners('tcpDisconnect', {
+      connectionId: args.connectionId,
+      disconnected: true,
+      reading: false,
+      reason: 'manual',
+    });
     return ok({ disconnected: true, reading: false });
   }
 
   async isConnected(args: { connectionId: string }): Promise<TcpIsConnectedResult> {
-    log('[isConnected]', args.connectionId);
-    return ok({ connected: true });
+    return ok({ connected: !!this.conns.get(args.connectionId)?.session });
   }
 
   async isReading(args: { connectionId: string }): Promise<TcpIsReadingResult> {
-    log('[isReading]', args.connectionId);
-    return ok({ reading: false });
+    return ok({ reading: !!this.conns.get(args.connectionId)?.reading });
+  }
+
+  async getConnectionInfo(args: { connectionId: string }): Promise<TcpConnectionInfoResult> {
+    const st = this.conns.get(args.connectionId);
+    if (!st) return ok({ connected: false, reading: false });
+    const busy = !!st.collector;
+    const info = { connected: !!st.session, reading: st.reading, host: st.host, port: st.port };
+    const flags = { connectInFlight: st.connecting, rrInFlight: busy, ioInFlight: busy };
+    if (!st.session) return ok({ ...info, ...flags });
+    const { connectedAt, bytesRead, bytesWritten } = st;
+    return ok({ ...info, connectedAt, bytesRead, bytesWritten, writeBufferSize: 0, ...flags });
+  }
+
+  async listConnections(): Promise<
+    BaseResult & { connections: Omit<TcpConnectionSummary, 'registered' | 'native'>[] }
+  > {
+    const connections = [...this.conns].map(([connectionId, st]) => ({
+      connectionId,
+      host: st.host,
+      port: st.port,
+      connected: !!st.session,
+      reading: st.reading,
+    }));
+    return ok({ connections });
   }
 
   async write(args: TcpWriteOptions & { connectionId: string }): Promise<TcpWriteResult> {
-    const data = Array.from(args.data as unknown as number[]);
-    log('[write]', args.connectionId, data.length, 'bytes');
+    const st = this.conns.get(args.connectionId);
+    if (!st?.session) return fail('not connected', { bytesSent: 0 });
+    if (st.collector) return fail('busy', { bytesSent: 0 });
+    const data = typeof args.data === 'string' ? null : fakePayloadBytes(args.data);
+    if (!data) return fail('data must be an array of bytes', { bytesSent: 0 });
+    st.session.write(data);
+    st.bytesWritten += data.length;
     return ok({ bytesSent: data.length });
   }
 
   async startRead(args: TcpStartReadOptions & { connectionId: string }): Promise<TcpStartStopResult> {
-    log('[startRead]', args.connectionId);
+    const { connectionId } = args;
+    const st = this.conns.get(connectionId);
+    if (!st?.session) return fail('not connected', { reading: false });
+    if (st.reading) return ok({ reading: true });
+    st.reading = true;
+    st.chunkSize = positiveInt(args.chunkSize, DEFAULT_CHUNK_SIZE, MAX_BUFFER_BYTES);
+    if (args.readTimeout != null) st.readTimeout = positiveInt(args.readTimeout, st.readTimeout, MAX_TIMER_MS);
+    // bytes a previous read() left behind arrive first
+    const held = st.inbox;
+    st.inbox = [];
+    if (held.length > 0) this.emitData(connectionId, st, held);
     return ok({ reading: true });
   }
 
   async stopRead(args: { connectionId: string }): Promise<TcpStartStopResult> {
-    log('[stopRead]', args.connectionId);
+    const st = this.conns.get(args.connectionId);
+    if (st) st.reading = false;
     return ok({ reading: false });
   }
 
   async setReadTimeout(args: { readTimeout: number; connectionId: string }): Promise<BaseResult> {
-    log('[setReadTimeout]', args.connectionId, args.readTimeout);
+    const timeout = positiveInt(args.readTimeout, 1000, MAX_TIMER_MS);
+    const st = this.conns.get(args.connectionId);
+    if (st) st.readTimeout = timeout;
+    else this.pendingReadTimeouts.set(args.connectionId, timeout);
     return ok();
   }
 
   async writeAndRead(args: TcpWriteAndReadOptions & { connectionId: string }): Promise<TcpWriteAndReadResult> {
-    const data = Array.from(args.data as unknown as number[]);
-    log('[writeAndRead]', args.connectionId, data.length, 'bytes');
-    return ok({ bytesSent: data.length, bytesReceived: 0, data: [], matched: false });
+    const st = this.conns.get(args.connectionId);
+    if (!st?.session) return fail('not connected', { bytesSent: 0, ...emptyReply() });
+    if (st.collector) return fail('busy', { bytesSent: 0, ...emptyReply() });
+    const data = typeof args.data === 'string' ? null : fakePayloadBytes(args.data);
+    if (!data) return fail('data must be an array of bytes', { bytesSent: 0, ...emptyReply() });
+    return { bytesSent: 0, ...(await this.collectReply(st, args, data, 0)) };
   }
 
-  async getPluginPlatform(): Promise<TcpGetPlatformResult> {
-    return ok({ platform: 'web' as const });
+  async read(args: TcpReadOptions & { connectionId: string }): Promise<TcpReadResult> {
+    const st = this.conns.get(args.connectionId);
+    if (!st?.session) return fail('not connected', emptyReply());
+    if (st.collector) return fail('busy', emptyReply());
+    let exactBytes = 0;
+    if (args.exactBytes != null) {
+      exactBytes = args.exactBytes;
+      if (!Number.isInteger(exactBytes) || exactBytes < 1 || exactBytes > MAX_BUFFER_BYTES) {
+        return fail('invalid exactBytes', emptyReply());
+      }
+    }
+    return this.collectReply(st, args, null, exactBytes);
   }
 
-  async destroyConnection(args: { connectionId: string }): Promise<void> {
-    log('[destroyConnection]', args.connectionId);
+  /**
+   * Reply accumulator with the native completion rules: expect, lengthField, exactBytes, the byte
+   * cap, a fixed idle window when no rule is set, and the timeout. A request goes out before held
+   * bytes are consumed, so it is sent even when they complete the reply; read() puts bytes past its
+   * cap back for the next read.
+   */
+  private collectReply(
+    st: FakeConnection,
+    args: TcpReadOptions,
+    request: number[] | null,
+    exactBytes: number,
+  ): Promise<BaseResult & Reply & { bytesSent?: number }> {
+    const patterns = args.expect == null ? [] : parseExpectPatterns(fromExpectOption(args.expect));
+    if (!patterns) return Promise.resolve(fail('invalid expect (hex or byte array expected)', emptyReply()));
+    const lengthSpec = args.lengthField == null ? null : parseLengthField(args.lengthField);
+    if (args.lengthField != null && !lengthSpec) return Promise.resolve(fail('invalid lengthField', emptyReply()));
+    const timeout = positiveInt(args.timeout, st.readTimeout, MAX_TIMER_MS);
+    const cap = exactBytes || positiveInt(args.maxBytes, DEFAULT_CHUNK_SIZE, MAX_BUFFER_BYTES);
+    const longestPattern = patterns.reduce((n, p) => Math.max(n, p.bytes.length), 0);
+    const session = st.session as FakeSession;
+
+    return new Promise((resolve) => {
+      const buf: number[] = [];
+      const sent: { bytesSent?: number } = {};
+      const startedAt = Date.now();
+      let firstByteAt = 0;
+      let idleTimer: ReturnType<typeof setTimeout> | undefined;
+      const finish = (result: BaseResult & Reply) => {
+        clearTimeout(timer);
+        clearTimeout(idleTimer);
+        if (st.collector === collector) st.collector = null;
+        resolve({ ...result, ...sent });
+      };
+      const reply = (matched: boolean, matchedIndex = -1, matchOffset = -1) => {
+        const timing = request && firstByteAt ? { firstByteMs: firstByteAt - startedAt } : {};
+        finish(ok({ bytesReceived: buf.length, data: buf.slice(), matched, matchedIndex, matchOffset, ...timing }));
+      };
+
+      const collector = {
+        suspendStream: args.suspendStreamDuringRR ?? true,
+        push: (bytes: number[]) => {
+          const accepted = bytes.slice(0, cap - buf.length);
+          if (!firstByteAt && accepted.length > 0) firstByteAt = Date.now();
+          const from = buf.length;
+          for (const byte of accepted) buf.push(byte);
+          if (!request && accepted.length < bytes.length) st.inbox = bytes.slice(accepted.length).concat(st.inbox);
+
+          // starts before `from` were already searched; a match may still straddle the chunk boundary
+          const match = findExpectMatch(buf, buf.length, patterns, from - longestPattern + 1);
+          if (match) return reply(true, match.index, match.offset);
+          const frameSize = lengthSpec ? lengthFieldFrameSize(lengthSpec, buf, buf.length) : undefined;
+          if (frameSize !== undefined && frameSize >= 0 && buf.length >= frameSize) return reply(true);
+          if (buf.length >= cap) return reply(exactBytes > 0);
+          if (patterns.length || lengthSpec || exactBytes) return;
+          clearTimeout(idleTimer);
+          idleTimer = setTimeout(() => reply(false), RR_IDLE_MS);
+        },
+        close: (error?: string) => {
+          if (buf.length > 0) reply(false);
+          else finish(fail(error ? `connection closed: ${error}` : 'connection closed', emptyReply()));
+        },
+      };
+      const timer = setTimeout(() => {
+        if (buf.length > 0) reply(false);
+        else finish(fail('timeout', emptyReply()));
+      }, timeout);
+
+      st.collector = collector;
+      if (request) {
+        session.write(request);
+        st.bytesWritten += request.length;
+        sent.bytesSent = request.length;
+      }
+      const held = st.inbox;
+      st.inbox = [];
+      if (held.length > 0) collector.push(held);
+    });
   }
 
-  async addListener(
-    eventName: 'tcpData' | 'tcpDisconnect',
-    listenerFunc: (event: unknown) => void,
-  ): Promise<PluginListenerHandle> {
-    void listenerFunc;
-    return {
-      remove: async () => {
-        log('[removeListener]', eventName);
-      },
-    };
+  async upgradeToTls(): Promise<TcpUpgradeTlsResult> {
+    return fail('tls is only supported on Electron', { upgraded: false });
   }
 
-  async removeAllListeners(): Promise<void> {
-    // no-op for browser
+  async getPluginPlatform(): Promise<TcpGetPlatformResult> {
+    return ok({ platform: 'web' as const });
+  }
+
+  async destroyConnection(args: { connectionId: string }): Promise<void> {
+    log('[destroyConnection]', args.connectionId);
+    await this.disconnect(args);
+    this.conns.delete(args.connectionId);
+    this.pendingReadTimeouts.delete(args.connectionId);
   }
 }
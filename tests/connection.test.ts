@@ -0,0 +1,442 @@
+import assert from 'node:assert/strict';
+import Module from 'node:module';
+import test from 'node:test';
+import { setTimeout as delay } from 'node:timers/promises';
+
+import type { TCPClientPlugin } from '../src/definitions';
+
+// The wrapper in src/index.ts talks to whatever registerPlugin() returns; swap it for a scripted bridge.
+type ModuleWithLoad = typeof Module & {
+  _load(request: string, parent: NodeModule | null, isMain: boolean): unknown;
+};
+type Listener = (event: any) => void;
+
+type ListenerEntry = { eventName: string; listener: Listener; connectionId?: string };
+
+class FakeBridge {
+  calls: Array<{ method: string; options: any }> = [];
+  listeners = new Set<ListenerEntry>();
+  handlers: Record<string, (options: any) => unknown> = {};
+  // The Electron preload hands out string ids and takes them back through removeListener()
+  stringHandles = false;
+  private handleIds = new Map<string, ListenerEntry>();
+
+  readonly plugin = new Proxy(
+    {},
+    {
+      get: (_target, method: string) => {
+        if (method === 'then') return undefined;
+        if (method === 'addListener')
+          return (eventName: string, listener: Listener, connectionId?: string) =>
+            this.addListener(eventName, listener, connectionId);
+        if (method === 'removeListener')
+          return (handle: string, eventName: string, connectionId?: string) =>
+            this.removeListener(handle, eventName, connectionId);
+        return async (options: any = {}) => {
+          this.calls.push({ method, options });
+          const handler = this.handlers[method] ?? defaultHandlers[method];
+          return handler ? handler.call(this, options) : { error: false, errorMessage: null };
+        };
+      },
+    },
+  );
+
+  emit(eventName: string, event: object) {
+    for (const entry of [...this.listeners]) if (entry.eventName === eventName) entry.listener(event);
+  }
+
+  callsOf(method: string) {
+    return this.calls.filter((call) => call.method === method).map((call) => call.options);
+  }
+
+  private async addListener(eventName: string, listener: Listener, connectionId?: string) {
+    const entry = { eventName, listener, connectionId };
+    this.listeners.add(entry);
+    if (this.stringHandles) {
+      const handle = `listener-${this.handleIds.size}`;
+      this.handleIds.set(handle, entry);
+      return handle;
+    }
+    return {
+      remove: async () => {
+        this.listeners.delete(entry);
+      },
+    };
+  }
+
+  private removeListener(handle: string, eventName: string, connectionId?: string) {
+    const entry = this.handleIds.get(handle);
+    this.calls.push({ method: 'removeListener', options: { eventName, connectionId } });
+    if (entry?.eventName === eventName && entry.connectionId === connectionId) this.listeners.delete(entry);
+  }
+}
+
+const defaultHandlers: Record<string, (this: FakeBridge, options: any) => unknown> = {
+  connect: () => ({ error: false, errorMessage: null, connected: true }),
+  disconnect(options) {
+    this.emit('tcpDisconnect', {
+      connectionId: options.connectionId,
+      disconnected: true,
+      reading: false,
+      reason: 'manual',
+    });
+    return { error: false, errorMessage: null, disconnected: true, reading: false };
+  },
+  startRead: () => ({ error: false, errorMessage: null, reading: true }),
+  stopRead: () => ({ error: false, errorMessage: null, reading: false }),
+  writeAndRead: (options) => ({
+    error: false,
+    errorMessage: null,
+    bytesSent: options.data.length,
+    bytesReceived: 1,
+    data: [0x06],
+    matched: true,
+    matchedIndex: 0,
+    matchOffset: 0,
+  }),
+  listConnections: () => ({ error: false, errorMessage: null, connections: [] }),
+  destroyConnection: () => undefined,
+};
+
+const bridge = new FakeBridge();
+const moduleWithLoad = Module as unknown as ModuleWithLoad;
+const originalLoad = moduleWithLoad._load;
+moduleWithLoad._load = function patchedLoad(request: string, parent: NodeModule | null, isMain: boolean) {
+  const loaded = originalLoad.call(this, request, parent, isMain);
+  if (request !== '@capacitor/core') return loaded;
+  return { ...(loaded as object), registerPlugin: () => bridge.plugin };
+};
+
+let client: TCPClientPlugin | undefined;
+
+async function loadClient(): Promise<TCPClientPlugin> {
+  client ??= (await import('../src/index.js')).TCPClient;
+  return client;
+}
+
+async function until(check: () => boolean, timeout = 1000) {
+  const deadline = Date.now() + timeout;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('condition not met in time');
+    await delay(5);
+  }
+}
+
+function dropConnection(connectionId: string, reason = 'remote') {
+  bridge.emit('tcpDisconnect', { connectionId, disconnected: true, reading: false, reason });
+}
+
+const failedConnect = () => ({ error: true, errorMessage: 'connect failed: ECONNREFUSED', connected: false });
+const rrTimeout = { error: true, errorMessage: 'timeout', bytesSent: 1, bytesReceived: 0, data: [], matched: false };
+
+test.afterEach(() => {
+  bridge.calls = [];
+  bridge.handlers = {};
+  bridge.stringHandles = false;
+});
+
+test('reconnect backs off, retries and restores the stream reader', async () => {
+  const TCPClient = await loadClient();
+  const connectionId = 'rc-backoff';
+  const conn = TCPClient.createConnection({
+    connectionId,
+    host: 'device.local',
+    port: 9100,
+    reconnect: { initialDelay: 20, factor: 2, jitter: 0, maxAttempts: 3 },
+  });
+  const events: unknown[] = [];
+  await conn.addListener('tcpReconnecting', (event) => events.push(event));
+  await conn.addListener('tcpReconnected', (event) => events.push(event));
+  await conn.connect();
+  await conn.startRead({ chunkSize: 512 });
+
+  let attempts = 0;
+  bridge.handlers.connect = () => (++attempts === 1 ? failedConnect() : { error: false, connected: true });
+  const started = Date.now();
+  dropConnection(connectionId);
+  await until(() => events.length === 3);
+
+  assert.deepEqual(events, [
+    { connectionId, attempt: 1, delay: 20, reason: 'remote' },
+    { connectionId, attempt: 2, delay: 40, reason: 'remote', error: 'connect failed: ECONNREFUSED' },
+    { connectionId, attempts: 2, reading: true },
+  ]);
+  assert.ok(Date.now() - started >= 55);
+  assert.deepEqual(
+    bridge.callsOf('connect').map((options) => options.host),
+    ['device.local', 'device.local', 'device.local'],
+  );
+  assert.deepEqual(bridge.callsOf('startRead').slice(-1)[0], { chunkSize: 512, connectionId });
+  assert.equal(conn.getStats().reconnects, 1);
+
+  assert.ok([...bridge.listeners].length > 0);
+  await conn.destroy();
+  assert.equal(bridge.listeners.size, 0);
+});
+
+test('reconnect stops after maxAttempts and skips the reader when restoreRead is off', async () => {
+  const TCPClient = await loadClient();
+  const connectionId = 'rc-limit';
+  const conn = TCPClient.createConnection({
+    connectionId,
+    host: 'device.local',
+    reconnect: { initialDelay: 0, jitter: 0, maxAttempts: 2, restoreRead: false },
+  });
+  const events: Array<{ attempt?: number; attempts?: number }> = [];
+  await conn.addListener('tcpReconnecting', (event) => events.push(event));
+  await conn.addListener('tcpReconnected', (event) => events.push(event));
+  await conn.connect();
+  await conn.startRead();
+
+  bridge.handlers.connect = failedConnect;
+  dropConnection(connectionId, 'error');
+  await until(() => events.length === 2);
+  await delay(30);
+  assert.deepEqual(
+    events.map((event) => event.attempt),
+    [1, 2],
+  );
+  assert.equal(bridge.callsOf('connect').length, 3);
+
+  delete bridge.handlers.connect;
+  dropConnection(connectionId);
+  await until(() => events.some((event) => event.attempts === 1));
+  assert.equal(bridge.callsOf('startRead').length, 1);
+  await conn.destroy();
+});
+
+test('manual disconnects never reconnect and cancel a pending attempt', async () => {
+  const TCPClient = await loadClient();
+  const connectionId = 'rc-manual';
+  const conn = TCPClient.createConnection({
+    connectionId,
+    host: 'device.local',
+    reconnect: { initialDelay: 50, jitter: 0 },
+  });
+  const events: unknown[] = [];
+  await conn.addListener('tcpReconnecting', (event) => events.push(event));
+  await conn.connect();
+
+  await conn.disconnect();
+  await delay(20);
+  assert.deepEqual(events, []);
+
+  await conn.connect();
+  dropConnection(connectionId);
+  await until(() => events.length === 1);
+  await conn.disconnect();
+  await delay(80);
+  assert.equal(events.length, 1);
+  assert.equal(bridge.callsOf('connect').length, 2);
+  await conn.destroy();
+});
+
+test('missed heartbeats tear the connection down with reason heartbeat', async () => {
+  const TCPClient = await loadClient();
+  const connectionId = 'hb-miss';
+  const conn = TCPClient.createConnection({
+    connectionId,
+    host: 'device.local',
+    heartbeat: { data: [0x10, 0x04, 0x01], expect: '??', interval: 100, timeout: 20, maxMisses: 2 },
+  });
+  const closes: Array<{ reason: string; error?: string }> = [];
+  await conn.addListener('tcpDisconnect', (event) => closes.push(event));
+  await conn.connect();
+
+  bridge.handlers.writeAndRead = () => ({ ...rrTimeout });
+  await until(() => closes.length === 1, 2000);
+  assert.equal(bridge.callsOf('writeAndRead').length, 2);
+  assert.deepEqual(bridge.callsOf('writeAndRead')[0], {
+    data: [0x10, 0x04, 0x01],
+    expect: '??',
+    timeout: 20,
+    connectionId,
+  });
+  assert.deepEqual(closes, [
+    { connectionId, disconnected: true, reading: false, reason: 'heartbeat', error: 'heartbeat missed' },
+  ]);
+  await delay(150);
+  assert.equal(bridge.callsOf('writeAndRead').length, 2);
+
+  // A fresh connect clears the heartbeat reason, so later closes keep their own reason.
+  await conn.connect();
+  await conn.disconnect();
+  assert.equal(closes.slice(-1)[0].reason, 'manual');
+  await conn.destroy();
+});
+
+test('a reconnect after a heartbeat teardown clears the close reason', async () => {
+  const TCPClient = await loadClient();
+  const connectionId = 'hb-reconnect';
+  const conn = TCPClient.createConnection({
+    connectionId,
+    host: 'device.local',
+    heartbeat: { data: [0x00], interval: 100, timeout: 20, maxMisses: 1 },
+    reconnect: { initialDelay: 0, jitter: 0 },
+  });
+  const events: Array<{ reason?: string; attempts?: number }> = [];
+  await conn.addListener('tcpDisconnect', (event) => events.push(event));
+  await conn.addListener('tcpReconnected', (event) => events.push(event));
+  await conn.connect();
+
+  bridge.handlers.writeAndRead = () => ({ ...rrTimeout });
+  await until(() => events.length === 2, 2000);
+  delete bridge.handlers.writeAndRead;
+  assert.deepEqual(
+    events.map((event) => event.reason ?? event.attempts),
+    ['heartbeat', 1],
+  );
+
+  // Once reconnected, a native 'manual' close passes through unchanged.
+  dropConnection(connectionId, 'manual');
+  assert.equal(events.slice(-1)[0].reason, 'manual');
+  await conn.destroy();
+});
+
+test('bridge listeners carry the connectionId on add and remove', async () => {
+  const TCPClient = await loadClient();
+  const first = TCPClient.createConnection({ connectionId: 'ls-first', host: 'device.local' });
+  const second = TCPClient.createConnection({ connectionId: 'ls-second', host: 'device.local' });
+  const seen: unknown[] = [];
+  await first.addListener('tcpData', (event) => seen.push(event));
+  await first.addListener('tcpDisconnect', (event) => seen.push(event));
+  assert.deepEqual(
+    [...bridge.listeners].map((entry) => [entry.eventName, entry.connectionId]),
+    [
+      ['tcpData', 'ls-first'],
+      ['tcpDisconnect', 'ls-first'],
+    ],
+  );
+  bridge.emit('tcpData', { connectionId: 'ls-second', data: [1] });
+  assert.deepEqual(seen, []);
+
+  bridge.stringHandles = true;
+  const handle = await second.addListener('tcpData', () => undefined);
+  assert.equal([...bridge.listeners].slice(-1)[0].connectionId, 'ls-second');
+  await handle.remove();
+  assert.deepEqual(bridge.callsOf('removeListener'), [{ eventName: 'tcpData', connectionId: 'ls-second' }]);
+  assert.equal(bridge.listeners.size, 2);
+
+  await first.destroy();
+  await second.destroy();
+  assert.equal(bridge.listeners.size, 0);
+});
+
+test('listConnections merges registered instances with the native list', async () => {
+  const TCPClient = await loadClient();
+  const live = TCPClient.createConnection({ connectionId: 'reg-live', host: 'device.local', port: 9100 });
+  const idle = TCPClient.createConnection({ connectionId: 'reg-idle', host: 'idle.local', port: 502 });
+  await live.connect();
+  bridge.handlers.listConnections = () => ({
+    error: false,
+    errorMessage: null,
+    connections: [
+      { connectionId: 'reg-live', host: '10.0.0.5', port: 9100, connected: true, reading: true },
+      { connectionId: 'reg-orphan', host: '10.0.0.9', port: 23, connected: true, reading: false },
+    ],
+  });
+
+  const listed = await TCPClient.listConnections();
+  assert.deepEqual(listed, {
+    error: false,
+    errorMessage: null,
+    connections: [
+      {
+        connectionId: 'reg-live',
+        host: '10.0.0.5',
+        port: 9100,
+        connected: true,
+        reading: true,
+        registered: true,
+        native: true,
+      },
+      {
+        connectionId: 'reg-idle',
+        host: 'idle.local',
+        port: 502,
+        connected: false,
+        reading: false,
+        registered: true,
+        native: false,
+      },
+      {
+        connectionId: 'reg-orphan',
+        host: '10.0.0.9',
+        port: 23,
+        connected: true,
+        reading: false,
+        registered: false,
+        native: true,
+      },
+    ],
+  });
+
+  bridge.handlers.listConnections = () => Promise.reject(new Error('bridge gone'));
+  const failed = await TCPClient.listConnections();
+  assert.equal(failed.error, true);
+  assert.equal(failed.errorMessage, 'Error: bridge gone');
+  assert.deepEqual(
+    failed.connections.map((entry) => [entry.connectionId, entry.registered, entry.native]),
+    [
+      ['reg-live', true, false],
+      ['reg-idle', true, false],
+    ],
+  );
+  await live.destroy();
+  await idle.destroy();
+});
+
+test('destroyAll tears down registered and native-only connections and their timers', async () => {
+  const TCPClient = await loadClient();
+  const reconnecting = TCPClient.createConnection({
+    connectionId: 'all-reconnect',
+    host: 'device.local',
+    reconnect: { initialDelay: 1000, jitter: 0 },
+  });
+  const probing = TCPClient.createConnection({
+    connectionId: 'all-heartbeat',
+    host: 'device.local',
+    heartbeat: { data: [0x00], interval: 100 },
+  });
+  const events: unknown[] = [];
+  await reconnecting.addListener('tcpReconnecting', (event) => events.push(event));
+  await reconnecting.connect();
+  await probing.connect();
+  dropConnection('all-reconnect');
+  assert.equal(events.length, 1);
+  bridge.handlers.listConnections = () => ({
+    error: false,
+    errorMessage: null,
+    connections: [
+      { connectionId: 'all-heartbeat', host: 'device.local', port: 9100, connected: true, reading: false },
+      { connectionId: 'all-orphan', host: '10.0.0.9', port: 23, connected: true, reading: false },
+    ],
+  });
+
+  const result = await TCPClient.destroyAll();
+  assert.deepEqual(result, {
+    error: false,
+    errorMessage: null,
+    destroyed: ['all-reconnect', 'all-heartbeat', 'all-orphan'],
+  });
+  assert.deepEqual(
+    bridge
+      .callsOf('destroyConnection')
+      .map((options) => options.connectionId)
+      .sort(),
+    ['all-heartbeat', 'all-orphan', 'all-reconnect'],
+  );
+  for (const conn of [reconnecting, probing]) {
+    const timers = conn as unknown as { _heartbeatTimer: unknown; _reconnectWait: unknown };
+    assert.equal(timers._heartbeatTimer, null);
+    assert.equal(timers._reconnectWait, null);
+  }
+  assert.equal(bridge.listeners.size, 0);
+
+  const connects = bridge.callsOf('connect').length;
+  await delay(250);
+  assert.equal(bridge.callsOf('connect').length, connects);
+  assert.equal(bridge.callsOf('writeAndRead').length, 0);
+  delete bridge.handlers.listConnections;
+  assert.deepEqual((await TCPClient.listConnections()).connections, []);
+});
@@ -3,6 +3,8 @@ import { readFileSync } from 'node:fs';
 import { join } from 'node:path';
 import test from 'node:test';
 
+import { pluginSettings } from '../electron/src/plugin-settings';
+
 test('electron byte conversion validates length before allocation', () => {
   const source = readFileSync(join(process.cwd(), 'electron/src/index.ts'), 'utf8');
   const methodStart = source.indexOf('private jsArrToBuf');
@@ -22,3 +24,17 @@ test('electron byte conversion validates length before allocation', () => {
   assert.ok(arrayGuard > typedArrayAllocation);
   assert.ok(arrayGuard < arrayAllocation);
 });
+
+test('the manual bridge in docs/electron.md exposes every plugin method', () => {
+  const guide = readFileSync(join(process.cwd(), 'docs/electron.md'), 'utf8');
+  const registered = /const tcpMethods = \[([^\]]*)\]/.exec(guide);
+  assert.ok(registered);
+  const handled = [...registered[1].matchAll(/'(\w+)'/g)].map((match) => match[1]);
+  const preloaded = [...guide.matchAll(/^ {2}(\w+): \([^)]*\) => invoke\('(\w+)'/gm)].map((match) => {
+    assert.equal(match[1], match[2]);
+    return match[1];
+  });
+
+  assert.deepEqual(handled, [...pluginSettings.pluginMethods]);
+  assert.deepEqual(preloaded, [...pluginSettings.pluginMethods]);
+});
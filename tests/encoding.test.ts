@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { decodeBase64, encodeBase64, encodeData, parseDataEncoding, toBytes } from '../src/utils/encoding';
+
+test('parseDataEncoding defaults to array and rejects unknown values', () => {
+  assert.equal(parseDataEncoding(undefined), 'array');
+  assert.equal(parseDataEncoding('base64'), 'base64');
+  assert.equal(parseDataEncoding('uint8array'), 'uint8array');
+  assert.equal(parseDataEncoding('hex'), null);
+});
+
+test('base64 round-trips bytes and rejects malformed input', () => {
+  const bytes = Uint8Array.from([0x00, 0x10, 0xff, 0x7f, 0x80]);
+  assert.equal(encodeBase64(bytes), 'ABD/f4A=');
+  assert.deepEqual(decodeBase64('ABD/ f4A='), bytes);
+  assert.deepEqual(decodeBase64(''), new Uint8Array(0));
+  assert.equal(decodeBase64('ABD'), null);
+  assert.equal(decodeBase64('AB-_'), null);
+});
+
+test('encodeBase64 handles payloads larger than one slice', () => {
+  const bytes = new Uint8Array(100_000).map((_, i) => i & 0xff);
+  assert.deepEqual(decodeBase64(encodeBase64(bytes)), bytes);
+});
+
+test('encodeData converts between every data form', () => {
+  const array = [1, 2, 250];
+  const base64 = 'AQL6';
+  const uint8 = Uint8Array.from(array);
+  for (const input of [array, base64, uint8]) {
+    assert.deepEqual(encodeData(input, 'array'), array);
+    assert.equal(encodeData(input, 'base64'), base64);
+    assert.deepEqual(encodeData(input, 'uint8array'), uint8);
+  }
+  assert.equal(encodeData(array, 'array'), array);
+  assert.equal(encodeData(uint8, 'uint8array'), uint8);
+  assert.deepEqual(toBytes(undefined), new Uint8Array(0));
+});
@@ -1,10 +1,15 @@
 import assert from 'node:assert/strict';
 import test from 'node:test';
 
-import { parseExpectBytes } from '../src/utils/expect';
+import type { ExpectPattern } from '../src/utils/expect';
+import { findExpectMatch, matchesExpectAt, parseExpectBytes, parseExpectPatterns } from '../src/utils/expect';
 
-function bytes(value: Uint8Array | null): number[] | null {
-  return value == null ? null : Array.from(value);
+function bytes(value: ExpectPattern | null): number[] | null {
+  return value == null ? null : Array.from(value.bytes);
+}
+
+function mask(value: ExpectPattern | null): number[] | null {
+  return value?.mask == null ? null : Array.from(value.mask);
 }
 
 test('parseExpectBytes treats empty expect values as absent', () => {
@@ -27,6 +32,13 @@ test('parseExpectBytes rejects invalid byte and hex inputs', () => {
   assert.equal(parseExpectBytes([1, 1.5]), null);
   assert.equal(parseExpectBytes('abc'), null);
   assert.equal(parseExpectBytes('zz'), null);
+  assert.equal(parseExpectBytes('1g'), null);
+});
+
+test('parseExpectBytes rejects half wildcards instead of reading them as digits', () => {
+  assert.equal(parseExpectBytes('1B 4? 40'), null);
+  assert.equal(parseExpectBytes('1B ?4 40'), null);
+  assert.deepEqual(bytes(parseExpectBytes('1B ?? 40')), [0x1b, 0x00, 0x40]);
 });
 
 test('parseExpectBytes defensively copies mutable inputs', () => {
@@ -35,3 +47,71 @@ test('parseExpectBytes defensively copies mutable inputs', () => {
   input[0] = 9;
   assert.deepEqual(bytes(parsed), [1, 2, 3]);
 });
+
+test('parseExpectPatterns distinguishes one byte array from alternatives', () => {
+  assert.deepEqual(parseExpectPatterns([0x06, 0x15])?.map(bytes), [[0x06, 0x15]]);
+  assert.deepEqual(parseExpectPatterns(['06', [0x15]])?.map(bytes), [[0x06], [0x15]]);
+  assert.deepEqual(parseExpectPatterns([new Uint8Array([0x4f, 0x4b]), '4552524f52'])?.map(bytes), [
+    [0x4f, 0x4b],
+    [0x45, 0x52, 0x52, 0x4f, 0x52],
+  ]);
+});
+
+test('parseExpectPatterns treats empty expect as absent and rejects empty alternatives', () => {
+  assert.deepEqual(parseExpectPatterns(undefined), []);
+  assert.deepEqual(parseExpectPatterns(''), []);
+  assert.deepEqual(parseExpectPatterns([]), []);
+  assert.equal(parseExpectPatterns(['06', '']), null);
+  assert.equal(parseExpectPatterns(['06', 'zz']), null);
+  assert.equal(parseExpectPatterns([6, '15'] as never), null);
+});
+
+test('findExpectMatch reports the earliest pattern and its offset', () => {
+  const patterns = parseExpectPatterns(['4f4b', '4552524f52']);
+  assert.ok(patterns);
+  const reply = [0x31, 0x45, 0x52, 0x52, 0x4f, 0x52, 0x4f, 0x4b];
+  assert.deepEqual(findExpectMatch(reply, reply.length, patterns), { index: 1, offset: 1 });
+  assert.deepEqual(findExpectMatch(reply, 5, patterns), null);
+});
+
+test('parseExpectBytes accepts wildcard bytes in hex strings', () => {
+  const pattern = parseExpectBytes('1B ?? 40');
+  assert.deepEqual(bytes(pattern), [0x1b, 0x00, 0x40]);
+  assert.deepEqual(mask(pattern), [0xff, 0x00, 0xff]);
+  assert.equal(parseExpectBytes('1b40')?.mask, null);
+  assert.equal(parseExpectBytes('1b ?'), null);
+  assert.equal(parseExpectBytes('1b ?4'), null);
+});
+
+test('parseExpectBytes accepts a per-byte mask', () => {
+  const pattern = parseExpectBytes({ bytes: [0x10, 0x7f], mask: 'ff 0f' });
+  assert.deepEqual(bytes(pattern), [0x10, 0x0f]);
+  assert.deepEqual(mask(pattern), [0xff, 0x0f]);
+  assert.deepEqual(mask(parseExpectBytes({ bytes: '10 ??', mask: [0xff, 0xff] })), [0xff, 0x00]);
+  assert.equal(parseExpectBytes({ bytes: [0x10], mask: [0xff] })?.mask, null);
+  assert.equal(parseExpectBytes({ bytes: [0x10, 0x12], mask: [0xff] }), null);
+  assert.equal(parseExpectBytes({ bytes: [], mask: [] }), null);
+  assert.equal(parseExpectBytes({ bytes: [0x10], mask: '??' }), null);
+});
+
+test('masked patterns only compare the bits set in the mask', () => {
+  // DLE EOT status reply: bit 3 set means offline, the other bits are don't-care
+  const offline = parseExpectBytes({ bytes: [0x08], mask: [0x08] });
+  assert.ok(offline);
+  assert.equal(matchesExpectAt([0x1a], 0, offline), true);
+  assert.equal(matchesExpectAt([0x12], 0, offline), false);
+
+  const patterns = parseExpectPatterns(['1b ?? 40', { bytes: [0x08], mask: [0x08] }]);
+  assert.ok(patterns);
+  assert.deepEqual(findExpectMatch([0x00, 0x1b, 0x33, 0x40], 4, patterns), { index: 0, offset: 1 });
+});
+
+test('findExpectMatch resumes across chunk boundaries', () => {
+  const patterns = parseExpectPatterns('1b ?? 40');
+  assert.ok(patterns);
+  const reply = [0x00, 0x1b, 0x21, 0x40];
+  // first chunk ended after 0x21: nothing complete yet
+  assert.equal(findExpectMatch(reply, 3, patterns), null);
+  // the next chunk only needs the starts the previous search could not complete
+  assert.deepEqual(findExpectMatch(reply, reply.length, patterns, 3 - 2), { index: 0, offset: 1 });
+});
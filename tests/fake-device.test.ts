@@ -0,0 +1,225 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { createFakeDeviceRegistry, fakeDevices, fakePayloadBytes } from '../src/utils/fake-device';
+import type { FakeDeviceSink } from '../src/utils/fake-device';
+import { TCPClientWeb } from '../src/web';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function recordingSink() {
+  const received: number[][] = [];
+  const closes: { reason: string; error?: string }[] = [];
+  const sink: FakeDeviceSink = {
+    data: (bytes) => received.push(bytes),
+    close: (reason, error) => closes.push({ reason, error }),
+  };
+  return { sink, received, closes };
+}
+
+test('fakePayloadBytes accepts hex and byte arrays but rejects wildcards', () => {
+  assert.deepEqual(fakePayloadBytes('10 04 01'), [0x10, 0x04, 0x01]);
+  assert.deepEqual(fakePayloadBytes(new Uint8Array([1, 2])), [1, 2]);
+  assert.deepEqual(fakePayloadBytes(''), []);
+  assert.equal(fakePayloadBytes('10 ??'), null);
+  assert.equal(fakePayloadBytes([256]), null);
+  assert.equal(fakePayloadBytes(undefined), null);
+});
+
+test('registry rejects invalid responders and pushes', () => {
+  const registry = createFakeDeviceRegistry();
+  assert.throws(() => registry.register({ responders: [{ match: 'zz', reply: '00' }] }), /responder match/);
+  assert.throws(() => registry.register({ responders: [{ reply: 'xyz' }] }), /responder reply/);
+  assert.throws(() => registry.register({ pushes: [{ data: '1' }] }), /push data/);
+});
+
+test('responders answer matching writes in order and honour times', async () => {
+  const registry = createFakeDeviceRegistry();
+  const device = registry.register({
+    host: 'printer.local',
+    port: 9100,
+    responders: [
+      { match: '10 04 ??', reply: '12', times: 1 },
+      { match: '10 04', reply: (request) => [request.length] },
+    ],
+  });
+  const { sink, received } = recordingSink();
+  const session = await registry.open('PRINTER.local', 9100, sink);
+  assert.notEqual(typeof session, 'string');
+  if (typeof session === 'string') return;
+  session.write([0x10, 0x04, 0x01]);
+  session.write([0x10, 0x04, 0x02, 0x00]);
+  session.write([0x1b, 0x40]);
+  await sleep(5);
+  assert.deepEqual(received, [[0x12], [4]]);
+  assert.deepEqual(device.writes(), [
+    [0x10, 0x04, 0x01],
+    [0x10, 0x04, 0x02, 0x00],
+    [0x1b, 0x40],
+  ]);
+});
+
+test('open refuses, falls back to a silent session and prefers the newest device', async () => {
+  const registry = createFakeDeviceRegistry();
+  registry.register({ port: 9100, refuseConnect: 'connect failed: ECONNREFUSED' });
+  const { sink } = recordingSink();
+  assert.equal(await registry.open('10.0.0.1', 9100, sink), 'connect failed: ECONNREFUSED');
+  const silent = await registry.open('10.0.0.1', 9101, sink);
+  assert.notEqual(typeof silent, 'string');
+
+  const newer = registry.register({ port: 9100 });
+  assert.notEqual(typeof (await registry.open('10.0.0.1', 9100, sink)), 'string');
+  newer.remove();
+  assert.equal(typeof (await registry.open('10.0.0.1', 9100, sink)), 'string');
+});
+
+test('pushes, scripted disconnects and handle controls reach open sessions', async () => {
+  const registry = createFakeDeviceRegistry();
+  const device = registry.register({
+    pushes: [{ data: 'aa', after: 1, every: 5 }],
+    disconnectAfter: 30,
+    disconnectReason: 'error',
+  });
+  const { sink, received, closes } = recordingSink();
+  await registry.open('h', 1, sink);
+  device.push([0xbb]);
+  await sleep(50);
+  assert.deepEqual(received[0], [0xbb]);
+  assert.ok(received.filter((r) => r[0] === 0xaa).length >= 2);
+  assert.deepEqual(closes, [{ reason: 'error', error: 'simulated connection error' }]);
+
+  const second = recordingSink();
+  const session = await registry.open('h', 1, second.sink);
+  if (typeof session === 'string') return assert.fail(session);
+  session.close();
+  device.disconnect();
+  await sleep(10);
+  assert.deepEqual(second.closes, []);
+  assert.deepEqual(second.received, []);
+});
+
+test('web platform round-trips writeAndRead against a fake device', async () => {
+  const device = fakeDevices.register({
+    host: 'rr.test',
+    responders: [{ match: '10 04 01', reply: '12 16', delay: 5 }],
+  });
+  const web = new TCPClientWeb();
+  const connectionId = 'rr';
+  try {
+    assert.deepEqual(await web.connect({ connectionId, host: 'rr.test', port: 9100 }), {
+      error: false,
+      errorMessage: null,
+      connected: true,
+    });
+    const result = await web.writeAndRead({ connectionId, data: [0x10, 0x04, 0x01], expect: '16', timeout: 500 });
+    assert.equal(result.error, false);
+    assert.equal(result.bytesSent, 3);
+    assert.deepEqual(result.data, [0x12, 0x16]);
+    assert.equal(result.matched, true);
+    assert.equal(result.matchOffset, 1);
+    assert.equal(typeof result.firstByteMs, 'number');
+    assert.deepEqual((await web.listConnections()).connections, [
+      { connectionId, host: 'rr.test', port: 9100, connected: true, reading: false },
+    ]);
+    const info = await web.getConnectionInfo({ connectionId });
+    assert.equal(info.connected, true);
+    assert.equal(info.host, 'rr.test');
+    assert.deepEqual([info.bytesWritten, info.bytesRead, info.rrInFlight], [3, 2, false]);
+
+    const timedOut = await web.writeAndRead({ connectionId, data: [0x00], expect: '16', timeout: 30 });
+    assert.equal(timedOut.errorMessage, 'timeout');
+    assert.equal(timedOut.bytesSent, 1);
+    assert.equal(
+      (await web.writeAndRead({ connectionId, data: [0], lengthField: { offset: -1 } })).errorMessage,
+      'invalid lengthField',
+    );
+  } finally {
+    await web.destroyConnection({ connectionId });
+    device.remove();
+  }
+});
+
+test('web platform holds unread bytes for read() and streams them to tcpData', async () => {
+  const device = fakeDevices.register({ host: 'stream.test' });
+  const web = new TCPClientWeb();
+  const connectionId = 'stream';
+  const events: unknown[] = [];
+  await web.addListener('tcpData', (event) => events.push(event));
+  await web.addListener('tcpDisconnect', (event) => events.push(event));
+  try {
+    await web.connect({ connectionId, host: 'stream.test' });
+    device.push([1, 2, 3, 4, 5]);
+    const first = await web.read({ connectionId, exactBytes: 2, timeout: 50 });
+    assert.deepEqual(first.data, [1, 2]);
+    assert.equal(first.matched, true);
+
+    await web.startRead({ connectionId });
+    device.push([6]);
+    device.disconnect('error', 'ECONNRESET');
+    assert.deepEqual(events, [
+      { connectionId, data: [3, 4, 5] },
+      { connectionId, data: [6] },
+      { connectionId, disconnected: true, reading: false, reason: 'error', error: 'ECONNRESET' },
+    ]);
+    assert.equal((await web.isConnected({ connectionId })).connected, false);
+    assert.equal((await web.read({ connectionId })).errorMessage, 'not connected');
+  } finally {
+    await web.destroyConnection({ connectionId });
+    await web.removeAllListeners();
+    device.remove();
+  }
+});
+
+test('web writeAndRead sends the request even when held bytes complete the reply', async () => {
+  const device = fakeDevices.register({ host: 'stale.test' });
+  const web = new TCPClientWeb();
+  const connectionId = 'stale';
+  try {
+    await web.connect({ connectionId, host: 'stale.test' });
+    device.push([0x12, 0x16]);
+    await sleep(5);
+    const result = await web.writeAndRead({ connectionId, data: [0x10, 0x04, 0x01], expect: '16', timeout: 50 });
+    assert.deepEqual([result.error, result.bytesSent, result.data], [false, 3, [0x12, 0x16]]);
+    assert.deepEqual(device.writes(), [[0x10, 0x04, 0x01]]);
+    assert.equal((await web.getConnectionInfo({ connectionId })).bytesWritten, 3);
+  } finally {
+    await web.destroyConnection({ connectionId });
+    device.remove();
+  }
+});
+
+test('web platform holds and reads half-megabyte payloads', async () => {
+  const device = fakeDevices.register({ host: 'bulk.test' });
+  const web = new TCPClientWeb();
+  const connectionId = 'bulk';
+  const payload = Array.from({ length: 500_000 }, (_, i) => i & 0xff);
+  try {
+    await web.connect({ connectionId, host: 'bulk.test' });
+    device.push(payload);
+    device.push([1, 2]);
+    const result = await web.read({ connectionId, exactBytes: payload.length + 1, timeout: 500 });
+    assert.equal(result.error, false);
+    assert.equal(result.bytesReceived, payload.length + 1);
+    assert.deepEqual((await web.read({ connectionId, exactBytes: 1, timeout: 50 })).data, [2]);
+  } finally {
+    await web.destroyConnection({ connectionId });
+    device.remove();
+  }
+});
+
+test('web platform reports refused and timed out connects', async () => {
+  const refusing = fakeDevices.register({ host: 'refuse.test', refuseConnect: 'connect failed: ECONNREFUSED' });
+  const slow = fakeDevices.register({ host: 'slow.test', connectDelay: 100 });
+  const web = new TCPClientWeb();
+  try {
+    const refused = await web.connect({ connectionId: 'a', host: 'refuse.test' });
+    assert.deepEqual(refused, { error: true, errorMessage: 'connect failed: ECONNREFUSED', connected: false });
+    const late = await web.connect({ connectionId: 'b', host: 'slow.test', timeout: 10 });
+    assert.equal(late.errorMessage, 'connect timeout');
+    assert.equal((await web.isConnected({ connectionId: 'b' })).connected, false);
+  } finally {
+    refusing.remove();
+    slow.remove();
+    await sleep(120);
+  }
+});
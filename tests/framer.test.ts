@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { createFramer, lengthFieldFrameSize, parseLengthField } from '../src/utils/framer';
+
+function frames(value: Uint8Array[]): number[][] {
+  return value.map((frame) => Array.from(frame));
+}
+
+test('createFramer rejects invalid options', () => {
+  assert.equal(createFramer(null), null);
+  assert.equal(createFramer({ type: 'delimiter', delimiter: '' }), null);
+  assert.equal(createFramer({ type: 'delimiter', delimiter: [1, 256] }), null);
+  assert.equal(createFramer({ type: 'delimiter', delimiter: '0d ??' }), null);
+  assert.equal(createFramer({ type: 'fixed', length: 0 }), null);
+  assert.equal(createFramer({ type: 'fixed', length: 8, maxFrameBytes: 4 }), null);
+  assert.equal(createFramer({ type: 'length', size: 3 as 2 }), null);
+  assert.equal(createFramer({ type: 'nope' } as never), null);
+});
+
+test('delimiter framer finds delimiters split across chunks', () => {
+  const framer = createFramer({ type: 'delimiter', delimiter: '0d0a' });
+  assert.ok(framer);
+  assert.deepEqual(frames(framer.push([0x41, 0x42, 0x0d])), []);
+  assert.deepEqual(frames(framer.push([0x0a, 0x43, 0x0d, 0x0a, 0x44])), [[0x41, 0x42], [0x43]]);
+  assert.deepEqual(frames(framer.push([0x0d, 0x0a])), [[0x44]]);
+});
+
+test('delimiter framer can keep the delimiter', () => {
+  const framer = createFramer({ type: 'delimiter', delimiter: [0x03], includeDelimiter: true });
+  assert.ok(framer);
+  assert.deepEqual(frames(framer.push([0x02, 0x31, 0x03, 0x02, 0x32, 0x03])), [
+    [0x02, 0x31, 0x03],
+    [0x02, 0x32, 0x03],
+  ]);
+});
+
+test('delimiter framer discards a partial frame beyond maxFrameBytes', () => {
+  const framer = createFramer({ type: 'delimiter', delimiter: [0x0a], maxFrameBytes: 4 });
+  assert.ok(framer);
+  assert.deepEqual(frames(framer.push([1, 2, 3, 4, 5])), []);
+  assert.deepEqual(frames(framer.push([6, 0x0a])), [[6]]);
+});
+
+test('fixed framer emits every length bytes', () => {
+  const framer = createFramer({ type: 'fixed', length: 3 });
+  assert.ok(framer);
+  assert.deepEqual(frames(framer.push([1, 2])), []);
+  assert.deepEqual(frames(framer.push([3, 4, 5, 6, 7])), [
+    [1, 2, 3],
+    [4, 5, 6],
+  ]);
+  framer.reset();
+  assert.deepEqual(frames(framer.push([8, 9, 10])), [[8, 9, 10]]);
+});
+
+test('length framer reassembles big-endian length-prefixed frames', () => {
+  const framer = createFramer({ type: 'length' });
+  assert.ok(framer);
+  assert.deepEqual(frames(framer.push([0x00])), []);
+  assert.deepEqual(frames(framer.push([0x02, 0xaa, 0xbb, 0x00, 0x01])), [[0x00, 0x02, 0xaa, 0xbb]]);
+  assert.deepEqual(frames(framer.push([0xcc])), [[0x00, 0x01, 0xcc]]);
+});
+
+test('length framer honours offset, endianness, adjustment and includesHeader', () => {
+  const framer = createFramer({
+    type: 'length',
+    offset: 1,
+    size: 2,
+    endian: 'little',
+    adjustment: -1,
+    includesHeader: true,
+  });
+  assert.ok(framer);
+  // declared 6 - 1 = 5 bytes in total, header included
+  assert.deepEqual(frames(framer.push([0x7e, 0x06, 0x00, 0x01, 0x02, 0x7e])), [[0x7e, 0x06, 0x00, 0x01, 0x02]]);
+});
+
+test('length framer drops the buffer on an impossible length', () => {
+  const framer = createFramer({ type: 'length', size: 1, includesHeader: true });
+  assert.ok(framer);
+  assert.deepEqual(frames(framer.push([0x00, 0x01])), []);
+  assert.deepEqual(frames(framer.push([0x02, 0x09])), [[0x02, 0x09]]);
+});
+
+test('lengthFieldFrameSize reads 4-byte lengths as unsigned', () => {
+  const spec = parseLengthField({ size: 4 });
+  assert.ok(spec);
+  assert.equal(lengthFieldFrameSize(spec, [0x00, 0x00, 0x01], 3), undefined);
+  assert.equal(lengthFieldFrameSize(spec, [0x80, 0x00, 0x00, 0x00], 4), 0x80000004);
+});
@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { parseHeartbeatPolicy } from '../src/utils/heartbeat';
+
+test('parseHeartbeatPolicy requires a non-empty byte payload', () => {
+  assert.equal(parseHeartbeatPolicy({ data: [] }), null);
+  assert.equal(parseHeartbeatPolicy({ data: [0x10, 256] }), null);
+  assert.equal(parseHeartbeatPolicy({ data: undefined as never }), null);
+});
+
+test('parseHeartbeatPolicy applies defaults and ignores invalid numbers', () => {
+  const defaults = { data: [0x10, 0x04, 0x01], expect: undefined, interval: 5000, timeout: 1000, maxMisses: 3 };
+  assert.deepEqual(parseHeartbeatPolicy({ data: Uint8Array.from([0x10, 0x04, 0x01]) }), defaults);
+  assert.deepEqual(
+    parseHeartbeatPolicy({ data: [0x10, 0x04, 0x01], interval: 10, timeout: -1, maxMisses: 0.5 }),
+    defaults,
+  );
+});
+
+test('parseHeartbeatPolicy keeps the reply timeout within the interval', () => {
+  const policy = parseHeartbeatPolicy({ data: [0x05], interval: 500, timeout: 800 });
+  assert.equal(policy?.timeout, 500);
+  assert.equal(parseHeartbeatPolicy({ data: [0x05], interval: 300, timeout: 200 })?.timeout, 200);
+});
+
+test('parseHeartbeatPolicy validates expect patterns', () => {
+  assert.deepEqual(parseHeartbeatPolicy({ data: [0x05], expect: '06' })?.expect, '06');
+  assert.deepEqual(parseHeartbeatPolicy({ data: [0x05], expect: ['06', [0x15]] })?.expect, ['06', [0x15]]);
+  assert.deepEqual(parseHeartbeatPolicy({ data: [0x05], expect: { bytes: '12', mask: 'f0' } })?.expect, {
+    bytes: '12',
+    mask: 'f0',
+  });
+  assert.equal(parseHeartbeatPolicy({ data: [0x05], expect: '' })?.expect, undefined);
+  assert.equal(parseHeartbeatPolicy({ data: [0x05], expect: 'zz' }), null);
+  assert.equal(parseHeartbeatPolicy({ data: [0x05], expect: ['06', ''] }), null);
+});
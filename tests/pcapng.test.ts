@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import type { TcpTraceEntry } from '../src/definitions';
+import { buildPcapng, parseIpAddress } from '../src/utils/pcapng';
+
+interface Block {
+  type: number;
+  body: DataView;
+}
+
+function blocks(file: Uint8Array): Block[] {
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const out: Block[] = [];
+  for (let offset = 0; offset < file.length;) {
+    const length = view.getUint32(offset + 4, true);
+    assert.equal(view.getUint32(offset + length - 4, true), length);
+    out.push({ type: view.getUint32(offset, true), body: new DataView(file.buffer, offset + 8, length - 12) });
+    offset += length;
+  }
+  return out;
+}
+
+function packet(block: Block) {
+  const body = block.body;
+  const captured = body.getUint32(12, true);
+  const frame = new DataView(body.buffer, body.byteOffset + 20, captured);
+  const tcp = 14 + 20;
+  return {
+    micros: body.getUint32(4, true) * 0x100000000 + body.getUint32(8, true),
+    captured,
+    original: body.getUint32(16, true),
+    src: [26, 27, 28, 29].map((i) => frame.getUint8(i)).join('.'),
+    srcPort: frame.getUint16(tcp),
+    dstPort: frame.getUint16(tcp + 2),
+    seq: frame.getUint32(tcp + 4),
+    ack: frame.getUint32(tcp + 8),
+    flags: frame.getUint8(tcp + 13),
+    payload: Array.from(new Uint8Array(frame.buffer, frame.byteOffset + tcp + 20, captured - tcp - 20)),
+    ipChecksumOk: checksum(new Uint8Array(frame.buffer, frame.byteOffset + 14, 20)) === 0,
+  };
+}
+
+function checksum(header: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < header.length; i += 2) sum += (header[i] << 8) | header[i + 1];
+  while (sum > 0xffff) sum = (sum & 0xffff) + (sum >>> 16);
+  return ~sum & 0xffff;
+}
+
+function entry(direction: 'tx' | 'rx', data: number[], extra: Partial<TcpTraceEntry> = {}): TcpTraceEntry {
+  return {
+    connectionId: 'c1',
+    timestamp: 1_700_000_000_123,
+    direction,
+    operation: 'rr',
+    length: data.length,
+    data,
+    ...extra,
+  };
+}
+
+test('parseIpAddress handles IPv4, IPv6 and IPv4-mapped literals', () => {
+  assert.deepEqual(parseIpAddress('10.1.2.3'), [10, 1, 2, 3]);
+  assert.deepEqual(parseIpAddress('::ffff:192.168.1.5'), [192, 168, 1, 5]);
+  assert.deepEqual(parseIpAddress('::1'), [...new Array<number>(15).fill(0), 1]);
+  assert.deepEqual(parseIpAddress('fe80::1%en0')?.slice(0, 2), [0xfe, 0x80]);
+  assert.equal(parseIpAddress('printer.local'), null);
+  assert.equal(parseIpAddress('256.1.1.1'), null);
+  assert.equal(parseIpAddress('1::2::3'), null);
+});
+
+test('buildPcapng writes headers only for an empty trace', () => {
+  const file = buildPcapng([], {});
+  assert.deepEqual(
+    blocks(file).map((b) => b.type),
+    [0x0a0d0d0a, 1],
+  );
+  assert.equal(new DataView(file.buffer).getUint32(8, true), 0x1a2b3c4d);
+});
+
+test('buildPcapng rebuilds a TCP stream with a handshake and real endpoints', () => {
+  const file = buildPcapng([entry('tx', [0x10, 0x04, 0x01]), entry('rx', [0x12])], {
+    localAddress: '127.0.0.1',
+    localPort: 50000,
+    remoteAddress: '10.0.0.7',
+    remotePort: 9100,
+  });
+  const packets = blocks(file)
+    .filter((b) => b.type === 6)
+    .map(packet);
+  assert.equal(packets.length, 5);
+  assert.deepEqual(
+    packets.map((p) => p.flags),
+    [0x02, 0x12, 0x10, 0x18, 0x18],
+  );
+  const [syn, synAck, , request, reply] = packets;
+  assert.equal(request.src, '127.0.0.1');
+  assert.equal(request.srcPort, 50000);
+  assert.equal(request.dstPort, 9100);
+  assert.equal(reply.src, '10.0.0.7');
+  assert.deepEqual(request.payload, [0x10, 0x04, 0x01]);
+  assert.deepEqual(reply.payload, [0x12]);
+  assert.equal(request.seq, syn.seq + 1);
+  assert.equal(reply.seq, synAck.seq + 1);
+  assert.equal(reply.ack, request.seq + 3);
+  assert.equal(request.micros, 1_700_000_000_123_000);
+  assert.ok(packets.every((p) => p.ipChecksumOk));
+});
+
+test('buildPcapng keeps the original length of truncated entries and comments errors', () => {
+  const file = buildPcapng(
+    [entry('rx', [1, 2], { length: 10 }), entry('rx', [], { error: 'timeout' }), entry('rx', [])],
+    {},
+  );
+  const packetBlocks = blocks(file).filter((b) => b.type === 6);
+  assert.equal(packetBlocks.length, 5);
+  const truncated = packet(packetBlocks[3]);
+  assert.equal(truncated.src, '192.0.2.2');
+  assert.equal(truncated.original - truncated.captured, 8);
+  const bareAck = packet(packetBlocks[4]);
+  assert.equal(bareAck.flags, 0x10);
+  assert.equal(bareAck.seq, truncated.seq + 10);
+  const body = packetBlocks[4].body;
+  const optionOffset = 20 + Math.ceil(bareAck.captured / 4) * 4;
+  assert.equal(body.getUint16(optionOffset, true), 1);
+  const length = body.getUint16(optionOffset + 2, true);
+  const comment = new TextDecoder().decode(new Uint8Array(body.buffer, body.byteOffset + optionOffset + 4, length));
+  assert.equal(comment, 'timeout');
+});
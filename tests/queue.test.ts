@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { createOperationQueue } from '../src/utils/queue';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+test('operation queue runs one operation at a time in call order', async () => {
+  const queue = createOperationQueue();
+  const order: string[] = [];
+  const first = deferred<string>();
+  const a = queue.run(
+    () => {
+      order.push('a');
+      return first.promise;
+    },
+    {},
+    () => 'timeout',
+  );
+  const b = queue.run(
+    async () => {
+      order.push('b');
+      return 'b';
+    },
+    {},
+    () => 'timeout',
+  );
+  await Promise.resolve();
+  assert.deepEqual(order, ['a']);
+  assert.equal(queue.length, 1);
+  assert.equal(queue.idle, false);
+  first.resolve('a');
+  assert.deepEqual(await Promise.all([a, b]), ['a', 'b']);
+  assert.deepEqual(order, ['a', 'b']);
+  assert.equal(queue.length, 0);
+  assert.equal(queue.idle, true);
+});
+
+test('operation queue starts higher priorities first and keeps FIFO within a priority', async () => {
+  const queue = createOperationQueue();
+  const order: string[] = [];
+  const gate = deferred<void>();
+  const task = (name: string) => async () => {
+    order.push(name);
+  };
+  const running = queue.run(
+    () => gate.promise,
+    {},
+    () => undefined,
+  );
+  const pending = [
+    queue.run(task('low'), { priority: -1 }, () => undefined),
+    queue.run(task('normal-1'), {}, () => undefined),
+    queue.run(task('high'), { priority: 5 }, () => undefined),
+    queue.run(task('normal-2'), { priority: 0 }, () => undefined),
+  ];
+  assert.equal(queue.length, 4);
+  gate.resolve();
+  await Promise.all([running, ...pending]);
+  assert.deepEqual(order, ['high', 'normal-1', 'normal-2', 'low']);
+});
+
+test('operation queue drops an operation whose queue timeout expires', async () => {
+  const queue = createOperationQueue();
+  const gate = deferred<string>();
+  let started = false;
+  const running = queue.run(
+    () => gate.promise,
+    {},
+    () => 'timeout',
+  );
+  const waiting = queue.run(
+    async () => {
+      started = true;
+      return 'ran';
+    },
+    { queueTimeout: 10 },
+    () => 'timeout',
+  );
+  assert.equal(await waiting, 'timeout');
+  assert.equal(queue.length, 0);
+  gate.resolve('done');
+  assert.equal(await running, 'done');
+  assert.equal(started, false);
+});
+
+test('operation queue continues after a rejected operation', async () => {
+  const queue = createOperationQueue();
+  const failed = queue.run(
+    async () => {
+      throw new Error('boom');
+    },
+    {},
+    () => 'timeout',
+  );
+  const next = queue.run(
+    async () => 'next',
+    { queueTimeout: 1000 },
+    () => 'timeout',
+  );
+  await assert.rejects(failed, /boom/);
+  assert.equal(await next, 'next');
+});
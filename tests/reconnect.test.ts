@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { parseReconnectPolicy, reconnectDelay } from '../src/utils/reconnect';
+
+test('parseReconnectPolicy is off unless requested', () => {
+  assert.equal(parseReconnectPolicy(undefined), null);
+  assert.equal(parseReconnectPolicy(false), null);
+});
+
+test('parseReconnectPolicy applies defaults and ignores invalid numbers', () => {
+  const defaults = {
+    maxAttempts: 5,
+    initialDelay: 500,
+    maxDelay: 30_000,
+    factor: 2,
+    jitter: 0.2,
+    restoreRead: true,
+  };
+  assert.deepEqual(parseReconnectPolicy(true), defaults);
+  assert.deepEqual(parseReconnectPolicy({ maxAttempts: -1, factor: 0.5, jitter: 2, initialDelay: NaN }), defaults);
+  assert.deepEqual(parseReconnectPolicy({ maxAttempts: 0, initialDelay: 100, maxDelay: 50, restoreRead: false }), {
+    ...defaults,
+    maxAttempts: 0,
+    initialDelay: 100,
+    maxDelay: 100,
+    restoreRead: false,
+  });
+});
+
+test('reconnectDelay grows exponentially up to maxDelay', () => {
+  const policy = parseReconnectPolicy({ initialDelay: 100, maxDelay: 1000, factor: 3, jitter: 0 });
+  assert.ok(policy);
+  const delays = [1, 2, 3, 4].map((attempt) => reconnectDelay(policy, attempt));
+  assert.deepEqual(delays, [100, 300, 900, 1000]);
+});
+
+test('reconnectDelay spreads the delay by the jitter fraction', () => {
+  const policy = parseReconnectPolicy({ initialDelay: 1000, jitter: 0.5 });
+  assert.ok(policy);
+  assert.equal(
+    reconnectDelay(policy, 1, () => 0),
+    500,
+  );
+  assert.equal(
+    reconnectDelay(policy, 1, () => 0.5),
+    1000,
+  );
+  assert.equal(
+    reconnectDelay(policy, 1, () => 1),
+    1500,
+  );
+});
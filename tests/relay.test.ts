@@ -0,0 +1,208 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import net from 'node:net';
+import test from 'node:test';
+import { setTimeout as delay } from 'node:timers/promises';
+
+import { createRelay, encodeFrame, createFrameParser, parseAllowRules } from '../relay/src/index';
+import { webRelay } from '../src/utils/ws-relay';
+import { TCPClientWeb } from '../src/web';
+
+async function tcpServer(onSocket: (socket: net.Socket) => void): Promise<{ port: number; close(): Promise<void> }> {
+  const sockets = new Set<net.Socket>();
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    onSocket(socket);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return {
+    port: (server.address() as net.AddressInfo).port,
+    close: () => {
+      for (const socket of sockets) socket.destroy();
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+async function withRelay(
+  run: (web: TCPClientWeb) => Promise<void>,
+  options: Parameters<typeof createRelay>[0] = { allow: (host) => host === '127.0.0.1' },
+): Promise<void> {
+  const relay = createRelay(options);
+  const { port } = await relay.listen(0, '127.0.0.1');
+  webRelay.configure({ url: `ws://127.0.0.1:${port}` });
+  const web = new TCPClientWeb();
+  try {
+    await run(web);
+  } finally {
+    webRelay.configure(null);
+    await web.destroyConnection({ connectionId: 'relay' });
+    await web.removeAllListeners();
+    await relay.close();
+  }
+}
+
+// Raw handshake, because WebSocket clients hide the HTTP status and cannot set Origin.
+function upgradeStatus(port: number, target: string, origin?: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({
+      host: '127.0.0.1',
+      port,
+      path: `/?${target}`,
+      headers: {
+        Connection: 'Upgrade',
+        Upgrade: 'websocket',
+        'Sec-WebSocket-Key': 'dGhlIHNhbXBsZSBub25jZQ==',
+        'Sec-WebSocket-Version': '13',
+        ...(origin ? { Origin: origin } : {}),
+      },
+    });
+    req.on('upgrade', (_res, socket) => {
+      socket.destroy();
+      resolve(101);
+    });
+    req.on('response', (res) => {
+      res.resume();
+      resolve(res.statusCode ?? 0);
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+function maskedFrame(opcode: number, payload: number[]): Buffer {
+  const mask = [1, 2, 3, 4];
+  return Buffer.from([0x80 | opcode, 0x80 | payload.length, ...mask, ...payload.map((b, i) => b ^ mask[i & 3])]);
+}
+
+test('relay frame helpers encode server frames and unmask split client frames', () => {
+  assert.deepEqual([...encodeFrame(2, Buffer.from([1, 2]))], [0x82, 2, 1, 2]);
+  assert.deepEqual([...encodeFrame(2, Buffer.alloc(300)).subarray(0, 4)], [0x82, 126, 1, 44]);
+
+  const parse = createFrameParser();
+  const frame = maskedFrame(2, [0x10, 0x04, 0x01]);
+  assert.deepEqual(parse(frame.subarray(0, 4)), []);
+  const frames = parse(frame.subarray(4));
+  assert.ok(Array.isArray(frames));
+  assert.equal(frames[0].opcode, 2);
+  assert.deepEqual([...frames[0].payload], [0x10, 0x04, 0x01]);
+  assert.equal(createFrameParser()(Buffer.from([0x82, 0x01, 0x00])), 'unmasked client frame');
+});
+
+test('relay allow rules match host and port with wildcards', () => {
+  const allow = parseAllowRules(['192.168.1.100:9100', '*:502', '[::1]:*']);
+  assert.ok(allow);
+  assert.equal(allow('192.168.1.100', 9100), true);
+  assert.equal(allow('192.168.1.100', 9101), false);
+  assert.equal(allow('plc.local', 502), true);
+  assert.equal(allow('::1', 1234), true);
+  assert.equal(parseAllowRules(['no-port']), null);
+  assert.equal(parseAllowRules(['host:70000']), null);
+  assert.equal(parseAllowRules([])?.('any', 1), false);
+});
+
+test('web platform talks to a real TCP server through the relay', async () => {
+  const device = await tcpServer((socket) => {
+    socket.on('data', (data) => {
+      if (data[0] === 0x10) socket.write(Buffer.from([0x12, 0x16]));
+      else socket.end(Buffer.from([0xee]));
+    });
+  });
+  try {
+    await withRelay(async (web) => {
+      const events: unknown[] = [];
+      await web.addListener('tcpData', (event) => events.push(event));
+      await web.addListener('tcpDisconnect', (event) => events.push(event));
+
+      const connectionId = 'relay';
+      const connected = await web.connect({ connectionId, host: '127.0.0.1', port: device.port });
+      assert.deepEqual(connected, { error: false, errorMessage: null, connected: true });
+
+      const reply = await web.writeAndRead({ connectionId, data: [0x10, 0x04, 0x01], expect: '16', timeout: 1000 });
+      assert.equal(reply.error, false);
+      assert.deepEqual(reply.data, [0x12, 0x16]);
+      assert.equal(reply.matched, true);
+
+      await web.startRead({ connectionId });
+      await web.write({ connectionId, data: [0x00] });
+      for (let i = 0; i < 50 && events.length < 2; i++) await delay(10);
+      assert.deepEqual(events, [
+        { connectionId, data: [0xee] },
+        { connectionId, disconnected: true, reading: false, reason: 'remote' },
+      ]);
+    });
+  } finally {
+    await device.close();
+  }
+});
+
+test('relay rejects disallowed and unreachable targets', async () => {
+  const closed = await tcpServer(() => undefined);
+  await closed.close();
+  await withRelay(
+    async (web) => {
+      const rejected = await web.connect({ connectionId: 'relay', host: '10.255.255.1', port: 9100 });
+      assert.deepEqual(rejected, {
+        error: true,
+        errorMessage: 'connect failed: relay refused the connection',
+        connected: false,
+      });
+      const refused = await web.connect({ connectionId: 'relay', host: '127.0.0.1', port: closed.port });
+      assert.equal(refused.errorMessage, 'connect failed: relay refused the connection');
+      assert.equal((await web.isConnected({ connectionId: 'relay' })).connected, false);
+    },
+    { allow: (host) => host === '127.0.0.1' },
+  );
+});
+
+test('relay refuses every target without allow rules', async () => {
+  let accepted = 0;
+  const device = await tcpServer(() => accepted++);
+  try {
+    await withRelay(async (web) => {
+      const rejected = await web.connect({ connectionId: 'relay', host: '127.0.0.1', port: device.port });
+      assert.equal(rejected.errorMessage, 'connect failed: relay refused the connection');
+    }, {});
+    await delay(20);
+    assert.equal(accepted, 0);
+  } finally {
+    await device.close();
+  }
+});
+
+test('relay accepts browsers only from its own origin unless origins are listed', async () => {
+  const device = await tcpServer(() => undefined);
+  const target = `host=127.0.0.1&port=${device.port}`;
+  const allow = () => true;
+  const open = createRelay({ allow });
+  const listed = createRelay({ allow, origins: ['http://app.test'] });
+  try {
+    const { port } = await open.listen(0, '127.0.0.1');
+    assert.equal(await upgradeStatus(port, target, 'http://evil.test'), 403);
+    assert.equal(await upgradeStatus(port, target, `http://127.0.0.1:${port}`), 101);
+    assert.equal(await upgradeStatus(port, target), 101);
+
+    const other = (await listed.listen(0, '127.0.0.1')).port;
+    assert.equal(await upgradeStatus(other, target, `http://127.0.0.1:${other}`), 403);
+    assert.equal(await upgradeStatus(other, target, 'http://app.test'), 101);
+  } finally {
+    await open.close();
+    await listed.close();
+    await device.close();
+  }
+});
+
+test('webRelay rejects non-WebSocket urls and builds tunnel targets', () => {
+  assert.throws(() => webRelay.configure({ url: 'http://localhost:8787' }), /invalid web relay url/);
+  webRelay.configure({ url: 'wss://relay.example/tcp?token=abc' });
+  try {
+    assert.equal(
+      webRelay.target('10.0.0.5', 9100, { noDelay: false }),
+      'wss://relay.example/tcp?token=abc&host=10.0.0.5&port=9100&nodelay=0',
+    );
+  } finally {
+    webRelay.configure(null);
+  }
+  assert.equal(webRelay.target('10.0.0.5', 9100), null);
+});
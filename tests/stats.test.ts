@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { createStatsCollector, percentiles, summarize } from '../src/utils/stats';
+
+const reply = { error: false, matched: true };
+
+test('percentiles use the nearest rank and are null without samples', () => {
+  assert.equal(percentiles([]), null);
+  const samples = Array.from({ length: 100 }, (_, i) => 100 - i);
+  assert.deepEqual(percentiles(samples), { count: 100, p50: 50, p90: 90, p99: 99, max: 100 });
+  assert.deepEqual(percentiles([7]), { count: 1, p50: 7, p90: 7, p99: 7, max: 7 });
+});
+
+test('stats collector counts writes, requests and reconnects', () => {
+  const stats = createStatsCollector(() => 5000);
+  stats.write({ error: false, bytesSent: 4 });
+  stats.write({ error: true, bytesSent: 0 });
+  stats.request({ ...reply, firstByteMs: 3 }, 10, true);
+  stats.request({ error: false, matched: false }, 30, true);
+  stats.request({ error: false, matched: false }, 20, false);
+  stats.request({ error: true, errorMessage: 'read timeout', matched: false }, 1000, true);
+  stats.request({ error: true, errorMessage: 'not connected', matched: false }, 0, false);
+  stats.reconnectAttempt();
+  stats.reconnectAttempt();
+  stats.reconnected();
+
+  const snapshot = stats.snapshot();
+  assert.equal(snapshot.since, 5000);
+  assert.deepEqual([snapshot.writes, snapshot.writeBytes], [1, 4]);
+  assert.deepEqual([snapshot.requests, snapshot.requestTimeouts, snapshot.requestErrors], [5, 1, 1]);
+  assert.deepEqual([snapshot.matched, snapshot.unmatched], [1, 1]);
+  assert.deepEqual(snapshot.latency, { count: 3, p50: 20, p90: 30, p99: 30, max: 30 });
+  assert.deepEqual(snapshot.firstByteLatency, { count: 1, p50: 3, p90: 3, p99: 3, max: 3 });
+  assert.deepEqual([snapshot.reconnectAttempts, snapshot.reconnects], [2, 1]);
+});
+
+test('stream rate covers the last 10 seconds', () => {
+  let now = 0;
+  const stats = createStatsCollector(() => now);
+  stats.stream(500);
+  now = 4000;
+  stats.stream(500);
+  assert.equal(stats.snapshot().streamBytesPerSecond, 100);
+  now = 12_000;
+  assert.equal(stats.snapshot().streamBytesPerSecond, 50);
+  now = 30_000;
+  assert.equal(stats.snapshot().streamBytesPerSecond, 0);
+  assert.equal(stats.snapshot().streamBytes, 1000);
+});
+
+test('summarize adds counters and pools latency samples', () => {
+  const a = createStatsCollector(() => 2000);
+  const b = createStatsCollector(() => 1000);
+  a.write({ error: false, bytesSent: 2 });
+  b.write({ error: false, bytesSent: 3 });
+  a.request(reply, 10, true);
+  b.request(reply, 40, true);
+
+  const total = summarize([a.parts(), b.parts()], 9999);
+  assert.equal(total.since, 1000);
+  assert.deepEqual([total.writes, total.writeBytes, total.matched], [2, 5, 2]);
+  assert.deepEqual(total.latency, { count: 2, p50: 10, p90: 40, p99: 40, max: 40 });
+  assert.equal(total.firstByteLatency, null);
+  assert.equal(summarize([], 9999).since, 9999);
+});
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { createChunkQueue } from '../src/utils/streams';
+
+test('chunk queue delivers pushed chunks in order', async () => {
+  const queue = createChunkQueue();
+  queue.push(Uint8Array.from([1]));
+  queue.push(Uint8Array.from([2, 3]));
+  assert.equal(queue.size, 2);
+  assert.deepEqual(await queue.next(), { done: false, value: Uint8Array.from([1]) });
+  assert.deepEqual(await queue.next(), { done: false, value: Uint8Array.from([2, 3]) });
+  assert.equal(queue.size, 0);
+});
+
+test('chunk queue resolves a pending read on the next push', async () => {
+  const queue = createChunkQueue();
+  const pending = queue.next();
+  queue.push(Uint8Array.from([7]));
+  assert.deepEqual(await pending, { done: false, value: Uint8Array.from([7]) });
+});
+
+test('chunk queue drains buffered chunks before ending', async () => {
+  const queue = createChunkQueue();
+  queue.push(Uint8Array.from([1]));
+  queue.end();
+  queue.push(Uint8Array.from([2]));
+  assert.deepEqual(await queue.next(), { done: false, value: Uint8Array.from([1]) });
+  assert.deepEqual(await queue.next(), { done: true, value: undefined });
+  assert.deepEqual(await queue.next(), { done: true, value: undefined });
+});
+
+test('chunk queue rejects pending and later reads after fail', async () => {
+  const queue = createChunkQueue();
+  const pending = queue.next();
+  queue.fail(new Error('socket reset'));
+  await assert.rejects(pending, /socket reset/);
+  await assert.rejects(queue.next(), /socket reset/);
+});
+
+test('chunk queue delivers buffered chunks before the failure', async () => {
+  const queue = createChunkQueue();
+  queue.push(Uint8Array.from([9]));
+  queue.fail(new Error('socket reset'));
+  queue.end();
+  assert.deepEqual(await queue.next(), { done: false, value: Uint8Array.from([9]) });
+  await assert.rejects(queue.next(), /socket reset/);
+});
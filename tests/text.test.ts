@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { createTextDecoder, encodeText, lineEndingSuffix, parseTextEncoding } from '../src/utils/text';
+
+test('parseTextEncoding defaults to utf-8 and rejects unknown values', () => {
+  assert.equal(parseTextEncoding(undefined), 'utf-8');
+  assert.equal(parseTextEncoding('windows-1250'), 'windows-1250');
+  assert.equal(parseTextEncoding('utf8'), null);
+  assert.equal(parseTextEncoding('latin1'), null);
+});
+
+test('lineEndingSuffix maps every line ending', () => {
+  assert.equal(lineEndingSuffix(undefined), '');
+  assert.equal(lineEndingSuffix('none'), '');
+  assert.equal(lineEndingSuffix('lf'), '\n');
+  assert.equal(lineEndingSuffix('crlf'), '\r\n');
+  assert.equal(lineEndingSuffix('cr'), '\r');
+  assert.equal(lineEndingSuffix('toString'), null);
+  assert.equal(lineEndingSuffix('\n'), null);
+});
+
+test('encodeText encodes utf-8 and windows-1250', () => {
+  assert.deepEqual(Array.from(encodeText('Aé€', 'utf-8') as Uint8Array), [0x41, 0xc3, 0xa9, 0xe2, 0x82, 0xac]);
+  assert.deepEqual(
+    Array.from(encodeText('Příliš €', 'windows-1250') as Uint8Array),
+    [0x50, 0xf8, 0xed, 0x6c, 0x69, 0x9a, 0x20, 0x80],
+  );
+  assert.equal(encodeText('日本', 'windows-1250'), null);
+});
+
+test('utf-8 decoder joins characters split across chunks', () => {
+  const bytes = encodeText('žluťoučký 🐎', 'utf-8') as Uint8Array;
+  const decoder = createTextDecoder('utf-8');
+  let text = '';
+  for (const byte of bytes) text += decoder.push([byte]);
+  assert.equal(text, 'žluťoučký 🐎');
+});
+
+test('utf-8 decoder reset drops a partial character', () => {
+  const decoder = createTextDecoder('utf-8');
+  assert.equal(decoder.push([0x41, 0xc5]), 'A');
+  decoder.reset();
+  assert.equal(decoder.push([0x42]), 'B');
+});
+
+test('windows-1250 decoder round-trips every byte', () => {
+  const bytes = Array.from({ length: 256 }, (_, i) => i);
+  const text = createTextDecoder('windows-1250').push(bytes);
+  assert.equal(text.length, 256);
+  assert.deepEqual(Array.from(encodeText(text, 'windows-1250') as Uint8Array), bytes);
+  assert.equal(text.slice(0x8a, 0x8f), 'Š‹ŚŤŽ');
+});
@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { createTraceBuffer, formatHexDump, parseTracePolicy } from '../src/utils/trace';
+
+const entry = { connectionId: 'c1', timestamp: 0, direction: 'tx' as const, operation: 'write' as const };
+
+test('parseTracePolicy is off unless requested and applies defaults', () => {
+  assert.equal(parseTracePolicy(undefined), null);
+  assert.equal(parseTracePolicy(false), null);
+  assert.deepEqual(parseTracePolicy(true), { maxEntries: 1000, maxBytesPerEntry: 4096 });
+  assert.deepEqual(parseTracePolicy({ maxEntries: 0, maxBytesPerEntry: 1.5 }), {
+    maxEntries: 1000,
+    maxBytesPerEntry: 4096,
+  });
+  assert.deepEqual(parseTracePolicy({ maxEntries: 3, maxBytesPerEntry: 8 }), { maxEntries: 3, maxBytesPerEntry: 8 });
+});
+
+test('trace buffer keeps the newest entries in order', () => {
+  const buffer = createTraceBuffer({ maxEntries: 3, maxBytesPerEntry: 16 });
+  for (let i = 1; i <= 5; i++) buffer.record({ ...entry, timestamp: i }, [i]);
+  assert.deepEqual(
+    buffer.entries().map((e) => e.timestamp),
+    [3, 4, 5],
+  );
+  buffer.clear();
+  assert.deepEqual(buffer.entries(), []);
+  buffer.record(entry, [9]);
+  assert.deepEqual(
+    buffer.entries().map((e) => e.data),
+    [[9]],
+  );
+});
+
+test('trace buffer truncates long transfers but keeps their length', () => {
+  const buffer = createTraceBuffer({ maxEntries: 10, maxBytesPerEntry: 4 });
+  const stored = buffer.record(entry, Uint8Array.from([1, 2, 3, 4, 5, 6]));
+  assert.equal(stored.length, 6);
+  assert.deepEqual(stored.data, [1, 2, 3, 4]);
+});
+
+test('formatHexDump prints a header and offset / hex / ASCII rows', () => {
+  const bytes = Array.from('Hello, device!\r\nOK', (c) => c.charCodeAt(0));
+  const dump = formatHexDump([
+    { ...entry, length: bytes.length, data: bytes },
+    {
+      ...entry,
+      timestamp: 1000,
+      direction: 'rx',
+      operation: 'rr',
+      length: 3,
+      data: [0x1b],
+      error: 'timeout',
+    },
+  ]);
+  assert.equal(
+    dump,
+    [
+      '1970-01-01T00:00:00.000Z TX write 18 bytes',
+      '  0000  48 65 6c 6c 6f 2c 20 64 65 76 69 63 65 21 0d 0a  Hello, device!..',
+      '  0010  4f 4b                                            OK',
+      '1970-01-01T00:00:01.000Z RX rr 3 bytes (first 1 shown) error: timeout',
+      '  0000  1b                                               .',
+    ].join('\n'),
+  );
+});